@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "Workout" ADD COLUMN     "timeCapSeconds" INTEGER,
+ADD COLUMN     "totalReps" INTEGER;
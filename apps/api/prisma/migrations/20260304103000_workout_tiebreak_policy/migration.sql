@@ -0,0 +1,8 @@
+-- CreateEnum
+CREATE TYPE "TiebreakPolicy" AS ENUM ('NONE', 'LOWER_TIEBREAK', 'TIME_AS_TIEBREAK');
+
+-- AlterTable
+ALTER TABLE "Workout" ADD COLUMN     "tiebreakPolicy" "TiebreakPolicy" NOT NULL DEFAULT 'LOWER_TIEBREAK';
+
+-- TIME_REPS har hittil brukt tiden som tiebreak
+UPDATE "Workout" SET "tiebreakPolicy" = 'TIME_AS_TIEBREAK' WHERE "scoreType" = 'TIME_REPS';
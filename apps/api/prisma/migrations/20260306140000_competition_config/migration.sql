@@ -0,0 +1,18 @@
+-- CreateEnum
+CREATE TYPE "TiePointsRule" AS ENUM ('SHARED_HIGHEST', 'AVERAGE');
+
+-- CreateTable
+CREATE TABLE "CompetitionConfig" (
+    "id" TEXT NOT NULL,
+    "seasonId" TEXT NOT NULL,
+    "competition" "CompetitionType" NOT NULL,
+    "tiePointsRule" "TiePointsRule" NOT NULL DEFAULT 'SHARED_HIGHEST',
+
+    CONSTRAINT "CompetitionConfig_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CompetitionConfig_seasonId_competition_key" ON "CompetitionConfig"("seasonId", "competition");
+
+-- AddForeignKey
+ALTER TABLE "CompetitionConfig" ADD CONSTRAINT "CompetitionConfig_seasonId_fkey" FOREIGN KEY ("seasonId") REFERENCES "Season"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- CreateEnum
+CREATE TYPE "PointsScheme" AS ENUM ('LINEAR_41', 'OPEN_PLACEMENT', 'GAMES_TABLE');
+
+-- AlterTable
+ALTER TABLE "CompetitionConfig" ADD COLUMN     "pointsScheme" "PointsScheme" NOT NULL DEFAULT 'LINEAR_41';
@@ -0,0 +1,21 @@
+-- AlterTable
+ALTER TABLE "Workout" ADD COLUMN     "fieldSize" INTEGER;
+
+-- CreateTable
+CREATE TABLE "ScorePercentile" (
+    "id" TEXT NOT NULL,
+    "workoutId" TEXT NOT NULL,
+    "topPercent" DOUBLE PRECISION NOT NULL,
+    "timeSeconds" INTEGER,
+    "reps" INTEGER,
+    "loadKg" DOUBLE PRECISION,
+    "tiebreakSecs" INTEGER,
+
+    CONSTRAINT "ScorePercentile_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ScorePercentile_workoutId_topPercent_key" ON "ScorePercentile"("workoutId", "topPercent");
+
+-- AddForeignKey
+ALTER TABLE "ScorePercentile" ADD CONSTRAINT "ScorePercentile_workoutId_fkey" FOREIGN KEY ("workoutId") REFERENCES "Workout"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
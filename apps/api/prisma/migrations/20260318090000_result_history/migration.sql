@@ -0,0 +1,15 @@
+-- CreateEnum
+CREATE TYPE "ResultPolicy" AS ENUM ('BEST', 'LATEST');
+
+-- DropIndex
+DROP INDEX "UserResult_userId_workoutId_key";
+
+-- AlterTable
+ALTER TABLE "UserResult" ADD COLUMN     "attempt" INTEGER NOT NULL DEFAULT 1,
+ADD COLUMN     "note" TEXT;
+
+-- AlterTable
+ALTER TABLE "Workout" ADD COLUMN     "resultPolicy" "ResultPolicy" NOT NULL DEFAULT 'BEST';
+
+-- CreateIndex
+CREATE UNIQUE INDEX "UserResult_userId_workoutId_attempt_key" ON "UserResult"("userId", "workoutId", "attempt");
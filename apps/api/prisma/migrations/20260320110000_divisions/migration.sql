@@ -0,0 +1,87 @@
+-- CreateEnum
+CREATE TYPE "Gender" AS ENUM ('MALE', 'FEMALE');
+
+-- CreateEnum
+CREATE TYPE "ScalingLevel" AS ENUM ('RX', 'SCALED', 'FOUNDATIONS');
+
+-- CreateTable
+CREATE TABLE "Division" (
+    "code" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "gender" "Gender" NOT NULL,
+    "minAge" INTEGER,
+    "maxAge" INTEGER,
+    "adaptiveCategory" TEXT,
+    "sortOrder" INTEGER NOT NULL DEFAULT 0,
+
+    CONSTRAINT "Division_pkey" PRIMARY KEY ("code")
+);
+
+-- Standarddivisjonene (åpen, teens, masters og adaptive); flere kan legges til av admin
+INSERT INTO "Division" ("code", "name", "gender", "minAge", "maxAge", "adaptiveCategory", "sortOrder") VALUES
+    ('MEN', 'Men', 'MALE', NULL, NULL, NULL, 10),
+    ('WOMEN', 'Women', 'FEMALE', NULL, NULL, NULL, 20),
+    ('TEEN_BOYS_14_15', 'Teen Boys 14-15', 'MALE', 14, 15, NULL, 30),
+    ('TEEN_GIRLS_14_15', 'Teen Girls 14-15', 'FEMALE', 14, 15, NULL, 40),
+    ('TEEN_BOYS_16_17', 'Teen Boys 16-17', 'MALE', 16, 17, NULL, 50),
+    ('TEEN_GIRLS_16_17', 'Teen Girls 16-17', 'FEMALE', 16, 17, NULL, 60),
+    ('MEN_35_39', 'Men 35-39', 'MALE', 35, 39, NULL, 70),
+    ('WOMEN_35_39', 'Women 35-39', 'FEMALE', 35, 39, NULL, 80),
+    ('MEN_40_44', 'Men 40-44', 'MALE', 40, 44, NULL, 90),
+    ('WOMEN_40_44', 'Women 40-44', 'FEMALE', 40, 44, NULL, 100),
+    ('MEN_45_49', 'Men 45-49', 'MALE', 45, 49, NULL, 110),
+    ('WOMEN_45_49', 'Women 45-49', 'FEMALE', 45, 49, NULL, 120),
+    ('MEN_50_54', 'Men 50-54', 'MALE', 50, 54, NULL, 130),
+    ('WOMEN_50_54', 'Women 50-54', 'FEMALE', 50, 54, NULL, 140),
+    ('MEN_55_59', 'Men 55-59', 'MALE', 55, 59, NULL, 150),
+    ('WOMEN_55_59', 'Women 55-59', 'FEMALE', 55, 59, NULL, 160),
+    ('MEN_60_64', 'Men 60-64', 'MALE', 60, 64, NULL, 170),
+    ('WOMEN_60_64', 'Women 60-64', 'FEMALE', 60, 64, NULL, 180),
+    ('MEN_65_PLUS', 'Men 65+', 'MALE', 65, NULL, NULL, 190),
+    ('WOMEN_65_PLUS', 'Women 65+', 'FEMALE', 65, NULL, NULL, 200),
+    ('MEN_UPPER_EXTREMITY', 'Men Upper Extremity', 'MALE', NULL, NULL, 'UPPER_EXTREMITY', 210),
+    ('WOMEN_UPPER_EXTREMITY', 'Women Upper Extremity', 'FEMALE', NULL, NULL, 'UPPER_EXTREMITY', 220),
+    ('MEN_LOWER_EXTREMITY', 'Men Lower Extremity', 'MALE', NULL, NULL, 'LOWER_EXTREMITY', 230),
+    ('WOMEN_LOWER_EXTREMITY', 'Women Lower Extremity', 'FEMALE', NULL, NULL, 'LOWER_EXTREMITY', 240),
+    ('MEN_SEATED', 'Men Seated', 'MALE', NULL, NULL, 'SEATED', 250),
+    ('WOMEN_SEATED', 'Women Seated', 'FEMALE', NULL, NULL, 'SEATED', 260),
+    ('MEN_VISION', 'Men Vision', 'MALE', NULL, NULL, 'VISION', 270),
+    ('WOMEN_VISION', 'Women Vision', 'FEMALE', NULL, NULL, 'VISION', 280),
+    ('MEN_SHORT_STATURE', 'Men Short Stature', 'MALE', NULL, NULL, 'SHORT_STATURE', 290),
+    ('WOMEN_SHORT_STATURE', 'Women Short Stature', 'FEMALE', NULL, NULL, 'SHORT_STATURE', 300),
+    ('MEN_INTELLECTUAL', 'Men Intellectual', 'MALE', NULL, NULL, 'INTELLECTUAL', 310),
+    ('WOMEN_INTELLECTUAL', 'Women Intellectual', 'FEMALE', NULL, NULL, 'INTELLECTUAL', 320),
+    ('MEN_NEUROMUSCULAR', 'Men Neuromuscular', 'MALE', NULL, NULL, 'NEUROMUSCULAR', 330),
+    ('WOMEN_NEUROMUSCULAR', 'Women Neuromuscular', 'FEMALE', NULL, NULL, 'NEUROMUSCULAR', 340);
+
+-- DropIndex
+DROP INDEX "BenchmarkAthlete_seasonId_competition_division_rank_key";
+
+-- AlterTable
+ALTER TABLE "BenchmarkAthlete" ADD COLUMN     "scaling" "ScalingLevel" NOT NULL DEFAULT 'RX',
+ALTER COLUMN "division" SET DATA TYPE TEXT USING "division"::TEXT;
+
+-- AlterTable
+ALTER TABLE "Workout" ADD COLUMN     "scaling" "ScalingLevel" NOT NULL DEFAULT 'RX',
+ALTER COLUMN "division" SET DATA TYPE TEXT USING "division"::TEXT;
+
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "birthYear" INTEGER,
+ADD COLUMN     "defaultDivision" TEXT,
+ADD COLUMN     "defaultScaling" "ScalingLevel",
+ADD COLUMN     "gender" "Gender";
+
+-- DropEnum
+DROP TYPE "DivisionType";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "BenchmarkAthlete_seasonId_competition_division_scaling_rank_key" ON "BenchmarkAthlete"("seasonId", "competition", "division", "scaling", "rank");
+
+-- AddForeignKey
+ALTER TABLE "User" ADD CONSTRAINT "User_defaultDivision_fkey" FOREIGN KEY ("defaultDivision") REFERENCES "Division"("code") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Workout" ADD CONSTRAINT "Workout_division_fkey" FOREIGN KEY ("division") REFERENCES "Division"("code") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "BenchmarkAthlete" ADD CONSTRAINT "BenchmarkAthlete_division_fkey" FOREIGN KEY ("division") REFERENCES "Division"("code") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,45 @@
+-- CreateEnum
+CREATE TYPE "AffiliateRole" AS ENUM ('OWNER', 'COACH', 'ATHLETE');
+
+-- CreateTable
+CREATE TABLE "Affiliate" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "inviteCode" TEXT NOT NULL,
+    "parentId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Affiliate_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "AffiliateMembership" (
+    "id" TEXT NOT NULL,
+    "affiliateId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "role" "AffiliateRole" NOT NULL DEFAULT 'ATHLETE',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "AffiliateMembership_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Affiliate_inviteCode_key" ON "Affiliate"("inviteCode");
+
+-- CreateIndex
+CREATE INDEX "Affiliate_parentId_idx" ON "Affiliate"("parentId");
+
+-- CreateIndex
+CREATE INDEX "AffiliateMembership_userId_idx" ON "AffiliateMembership"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "AffiliateMembership_affiliateId_userId_key" ON "AffiliateMembership"("affiliateId", "userId");
+
+-- AddForeignKey
+ALTER TABLE "Affiliate" ADD CONSTRAINT "Affiliate_parentId_fkey" FOREIGN KEY ("parentId") REFERENCES "Affiliate"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "AffiliateMembership" ADD CONSTRAINT "AffiliateMembership_affiliateId_fkey" FOREIGN KEY ("affiliateId") REFERENCES "Affiliate"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "AffiliateMembership" ADD CONSTRAINT "AffiliateMembership_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
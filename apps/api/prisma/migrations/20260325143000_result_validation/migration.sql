@@ -0,0 +1,16 @@
+-- CreateEnum
+CREATE TYPE "ValidationStatus" AS ENUM ('SELF_REPORTED', 'PENDING', 'VALIDATED', 'REJECTED');
+
+-- AlterTable
+ALTER TABLE "UserResult" ADD COLUMN     "judgeName" TEXT,
+ADD COLUMN     "rejectionReason" TEXT,
+ADD COLUMN     "reviewedAt" TIMESTAMP(3),
+ADD COLUMN     "reviewedById" TEXT,
+ADD COLUMN     "validationStatus" "ValidationStatus" NOT NULL DEFAULT 'SELF_REPORTED',
+ADD COLUMN     "videoUrl" TEXT;
+
+-- CreateIndex
+CREATE INDEX "UserResult_validationStatus_idx" ON "UserResult"("validationStatus");
+
+-- AddForeignKey
+ALTER TABLE "UserResult" ADD CONSTRAINT "UserResult_reviewedById_fkey" FOREIGN KEY ("reviewedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,50 @@
+-- AlterEnum
+ALTER TYPE "CompetitionType" ADD VALUE 'BENCHMARK';
+ALTER TYPE "CompetitionType" ADD VALUE 'CUSTOM';
+ALTER TYPE "CompetitionType" ADD VALUE 'HERO';
+
+-- DropForeignKey
+ALTER TABLE "Workout" DROP CONSTRAINT "Workout_seasonId_fkey";
+
+-- AlterTable
+ALTER TABLE "Workout" ADD COLUMN     "ownerAffiliateId" TEXT,
+ADD COLUMN     "ownerUserId" TEXT,
+ALTER COLUMN "seasonId" DROP NOT NULL;
+
+-- CreateTable
+CREATE TABLE "CommunityBenchmark" (
+    "id" TEXT NOT NULL,
+    "workoutId" TEXT NOT NULL,
+    "athleteName" TEXT NOT NULL,
+    "sourceUrl" TEXT,
+    "submittedById" TEXT NOT NULL,
+    "approvedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "timeSeconds" INTEGER,
+    "reps" INTEGER,
+    "loadKg" DOUBLE PRECISION,
+    "tiebreakSecs" INTEGER,
+
+    CONSTRAINT "CommunityBenchmark_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "CommunityBenchmark_workoutId_idx" ON "CommunityBenchmark"("workoutId");
+
+-- CreateIndex
+CREATE INDEX "Workout_competition_idx" ON "Workout"("competition");
+
+-- AddForeignKey
+ALTER TABLE "Workout" ADD CONSTRAINT "Workout_seasonId_fkey" FOREIGN KEY ("seasonId") REFERENCES "Season"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Workout" ADD CONSTRAINT "Workout_ownerUserId_fkey" FOREIGN KEY ("ownerUserId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Workout" ADD CONSTRAINT "Workout_ownerAffiliateId_fkey" FOREIGN KEY ("ownerAffiliateId") REFERENCES "Affiliate"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CommunityBenchmark" ADD CONSTRAINT "CommunityBenchmark_workoutId_fkey" FOREIGN KEY ("workoutId") REFERENCES "Workout"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CommunityBenchmark" ADD CONSTRAINT "CommunityBenchmark_submittedById_fkey" FOREIGN KEY ("submittedById") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "Workout" ADD COLUMN     "structure" JSONB;
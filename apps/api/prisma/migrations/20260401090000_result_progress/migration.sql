@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "UserResult" ADD COLUMN     "progress" JSONB;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "BenchmarkResult" ADD COLUMN     "splits" INTEGER[] DEFAULT ARRAY[]::INTEGER[];
+
+-- AlterTable
+ALTER TABLE "UserResult" ADD COLUMN     "splits" INTEGER[] DEFAULT ARRAY[]::INTEGER[];
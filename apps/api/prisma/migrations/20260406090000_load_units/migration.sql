@@ -0,0 +1,5 @@
+-- CreateEnum
+CREATE TYPE "LoadUnit" AS ENUM ('KG', 'LB');
+
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "loadUnit" "LoadUnit" NOT NULL DEFAULT 'KG';
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Workout" ADD COLUMN     "repeatOfId" TEXT;
+
+-- AddForeignKey
+ALTER TABLE "Workout" ADD CONSTRAINT "Workout_repeatOfId_fkey" FOREIGN KEY ("repeatOfId") REFERENCES "Workout"("id") ON DELETE SET NULL ON UPDATE CASCADE;
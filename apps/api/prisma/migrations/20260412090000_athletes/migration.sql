@@ -0,0 +1,40 @@
+-- DropIndex
+DROP INDEX "BenchmarkAthlete_seasonId_competition_division_scaling_rank_key";
+
+-- CreateTable
+CREATE TABLE "Athlete" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "country" TEXT,
+    "affiliate" TEXT,
+    "externalId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Athlete_pkey" PRIMARY KEY ("id")
+);
+
+-- Én identitet per eksisterende plassering; nye importer matcher utøverne på tvers av år
+INSERT INTO "Athlete" ("id", "name") SELECT 'ath_' || "id", "name" FROM "BenchmarkAthlete";
+
+-- AlterTable
+ALTER TABLE "BenchmarkAthlete" ADD COLUMN     "athleteId" TEXT;
+UPDATE "BenchmarkAthlete" SET "athleteId" = 'ath_' || "id";
+ALTER TABLE "BenchmarkAthlete" ALTER COLUMN "athleteId" SET NOT NULL;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Athlete_externalId_key" ON "Athlete"("externalId");
+
+-- CreateIndex
+CREATE INDEX "Athlete_name_idx" ON "Athlete"("name");
+
+-- CreateIndex
+CREATE INDEX "BenchmarkAthlete_seasonId_competition_division_scaling_rank_idx" ON "BenchmarkAthlete"("seasonId", "competition", "division", "scaling", "rank");
+
+-- CreateIndex
+CREATE INDEX "BenchmarkAthlete_athleteId_idx" ON "BenchmarkAthlete"("athleteId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "BenchmarkAthlete_seasonId_competition_division_scaling_athl_key" ON "BenchmarkAthlete"("seasonId", "competition", "division", "scaling", "athleteId");
+
+-- AddForeignKey
+ALTER TABLE "BenchmarkAthlete" ADD CONSTRAINT "BenchmarkAthlete_athleteId_fkey" FOREIGN KEY ("athleteId") REFERENCES "Athlete"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
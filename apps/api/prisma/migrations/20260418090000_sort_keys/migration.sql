@@ -0,0 +1,66 @@
+-- AlterTable
+ALTER TABLE "BenchmarkResult" ADD COLUMN     "sortKey" DOUBLE PRECISION[] DEFAULT ARRAY[]::DOUBLE PRECISION[];
+
+-- AlterTable
+ALTER TABLE "CommunityBenchmark" ADD COLUMN     "sortKey" DOUBLE PRECISION[] DEFAULT ARRAY[]::DOUBLE PRECISION[];
+
+-- AlterTable
+ALTER TABLE "UserResult" ADD COLUMN     "sortKey" DOUBLE PRECISION[] DEFAULT ARRAY[]::DOUBLE PRECISION[];
+
+-- Nøklene for eksisterende resultater, som scoreSortKey i scoring.ts
+UPDATE "UserResult" r SET "sortKey" = ARRAY[
+  (CASE WHEN w."scoreType" = 'TIME' AND r."timeSeconds" IS NULL AND r."reps" IS NOT NULL THEN 1 ELSE 0 END)::double precision,
+  (CASE
+    WHEN w."scoreType" = 'TIME' AND r."timeSeconds" IS NULL AND r."reps" IS NOT NULL THEN -r."reps"
+    WHEN w."scoreType" = 'TIME' THEN COALESCE(r."timeSeconds", 9007199254740991)
+    WHEN w."scoreType" = 'LOAD' THEN -COALESCE(r."loadKg", 0)
+    ELSE -COALESCE(r."reps", 0)
+  END)::double precision,
+  (CASE w."tiebreakPolicy"
+    WHEN 'NONE' THEN 0
+    WHEN 'LOWER_TIEBREAK' THEN COALESCE(r."tiebreakSecs", 9007199254740991)
+    ELSE COALESCE(r."timeSeconds", 9007199254740991)
+  END)::double precision
+]
+FROM "Workout" w
+WHERE w."id" = r."workoutId";
+
+UPDATE "BenchmarkResult" r SET "sortKey" = ARRAY[
+  (CASE WHEN w."scoreType" = 'TIME' AND r."timeSeconds" IS NULL AND r."reps" IS NOT NULL THEN 1 ELSE 0 END)::double precision,
+  (CASE
+    WHEN w."scoreType" = 'TIME' AND r."timeSeconds" IS NULL AND r."reps" IS NOT NULL THEN -r."reps"
+    WHEN w."scoreType" = 'TIME' THEN COALESCE(r."timeSeconds", 9007199254740991)
+    WHEN w."scoreType" = 'LOAD' THEN -COALESCE(r."loadKg", 0)
+    ELSE -COALESCE(r."reps", 0)
+  END)::double precision,
+  (CASE w."tiebreakPolicy"
+    WHEN 'NONE' THEN 0
+    WHEN 'LOWER_TIEBREAK' THEN COALESCE(r."tiebreakSecs", 9007199254740991)
+    ELSE COALESCE(r."timeSeconds", 9007199254740991)
+  END)::double precision
+]
+FROM "Workout" w
+WHERE w."id" = r."workoutId";
+
+UPDATE "CommunityBenchmark" r SET "sortKey" = ARRAY[
+  (CASE WHEN w."scoreType" = 'TIME' AND r."timeSeconds" IS NULL AND r."reps" IS NOT NULL THEN 1 ELSE 0 END)::double precision,
+  (CASE
+    WHEN w."scoreType" = 'TIME' AND r."timeSeconds" IS NULL AND r."reps" IS NOT NULL THEN -r."reps"
+    WHEN w."scoreType" = 'TIME' THEN COALESCE(r."timeSeconds", 9007199254740991)
+    WHEN w."scoreType" = 'LOAD' THEN -COALESCE(r."loadKg", 0)
+    ELSE -COALESCE(r."reps", 0)
+  END)::double precision,
+  (CASE w."tiebreakPolicy"
+    WHEN 'NONE' THEN 0
+    WHEN 'LOWER_TIEBREAK' THEN COALESCE(r."tiebreakSecs", 9007199254740991)
+    ELSE COALESCE(r."timeSeconds", 9007199254740991)
+  END)::double precision
+]
+FROM "Workout" w
+WHERE w."id" = r."workoutId";
+
+-- CreateIndex
+CREATE INDEX "BenchmarkResult_workoutId_sortKey_idx" ON "BenchmarkResult"("workoutId", "sortKey");
+
+-- CreateIndex
+CREATE INDEX "UserResult_workoutId_sortKey_idx" ON "UserResult"("workoutId", "sortKey");
@@ -0,0 +1,5 @@
+-- CreateEnum
+CREATE TYPE "LoginTokenKind" AS ENUM ('MAGIC_LINK', 'CLAIM_CODE');
+
+-- AlterTable
+ALTER TABLE "LoginToken" ADD COLUMN     "kind" "LoginTokenKind" NOT NULL DEFAULT 'MAGIC_LINK';
@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "LoginToken" ADD COLUMN     "email" TEXT,
+ALTER COLUMN "userId" DROP NOT NULL;
+
+-- CreateIndex
+CREATE INDEX "LoginToken_email_createdAt_idx" ON "LoginToken"("email", "createdAt");
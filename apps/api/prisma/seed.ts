@@ -1,5 +1,6 @@
 import "dotenv/config";
 import { PrismaClient } from "@prisma/client";
+import { scoreSortKey } from "../src/scoring.ts";
 
 const prisma = new PrismaClient();
 
@@ -27,6 +28,8 @@ async function main() {
       name: "Open 26.1 (TEST) - For time",
       description: "For time: 50-40-30-20-10 reps of burpees (TEST DATA)",
       scoreType: "TIME",
+      timeCapSeconds: 1200,
+      totalReps: 150,
     },
   });
 
@@ -47,13 +50,19 @@ async function main() {
   // Create 40 benchmark athletes (MEN)
   const athletes = [];
   for (let i = 1; i <= 40; i++) {
+    const person = await prisma.athlete.upsert({
+      where: { externalId: `seed-${i}` },
+      update: {},
+      create: { externalId: `seed-${i}`, name: `Benchmark Athlete #${i}` },
+    });
     const a = await prisma.benchmarkAthlete.upsert({
       where: {
-        seasonId_competition_division_rank: {
+        seasonId_competition_division_scaling_athleteId: {
           seasonId: season.id,
           competition: "OPEN",
           division: "MEN",
-          rank: i,
+          scaling: "RX",
+          athleteId: person.id,
         },
       },
       update: {},
@@ -62,7 +71,8 @@ async function main() {
         competition: "OPEN",
         division: "MEN",
         rank: i,
-        name: `Benchmark Athlete #${i}`,
+        name: person.name,
+        athleteId: person.id,
       },
     });
     athletes.push(a);
@@ -79,14 +89,68 @@ async function main() {
 
     await prisma.benchmarkResult.upsert({
       where: { workoutId_athleteId: { workoutId: w1.id, athleteId: a.id } },
-      update: { timeSeconds },
-      create: { workoutId: w1.id, athleteId: a.id, timeSeconds },
+      update: { timeSeconds, sortKey: scoreSortKey(w1, { timeSeconds }) },
+      create: { workoutId: w1.id, athleteId: a.id, timeSeconds, sortKey: scoreSortKey(w1, { timeSeconds }) },
     });
 
     await prisma.benchmarkResult.upsert({
       where: { workoutId_athleteId: { workoutId: w2.id, athleteId: a.id } },
-      update: { reps },
-      create: { workoutId: w2.id, athleteId: a.id, reps },
+      update: { reps, sortKey: scoreSortKey(w2, { reps }) },
+      create: { workoutId: w2.id, athleteId: a.id, reps, sortKey: scoreSortKey(w2, { reps }) },
+    });
+  }
+
+  // Offentlige bibliotek-workouts (uten sesong og eier)
+  const library = [
+    {
+      id: "seed-fran",
+      competition: "BENCHMARK" as const,
+      name: "Fran",
+      description: "21-15-9: thrusters (43/29 kg), pull-ups",
+      scoreType: "TIME" as const,
+      totalReps: 90,
+      structure: {
+        format: "FOR_TIME",
+        repScheme: [21, 15, 9],
+        movements: [{ name: "Thruster", loadsKg: { MEN: 43, WOMEN: 29 } }, { name: "Pull-up" }],
+      },
+    },
+    {
+      id: "seed-grace",
+      competition: "BENCHMARK" as const,
+      name: "Grace",
+      description: "For time: 30 clean and jerks (61/43 kg)",
+      scoreType: "TIME" as const,
+      totalReps: 30,
+      structure: {
+        format: "FOR_TIME",
+        movements: [{ name: "Clean and jerk", reps: 30, loadsKg: { MEN: 61, WOMEN: 43 } }],
+      },
+    },
+    {
+      id: "seed-murph",
+      competition: "HERO" as const,
+      name: "Murph",
+      description: "For time: 1 mile run, 100 pull-ups, 200 push-ups, 300 air squats, 1 mile run (vest 9/6 kg)",
+      scoreType: "TIME" as const,
+      totalReps: 3800,
+      structure: {
+        format: "FOR_TIME",
+        movements: [
+          { name: "Run", reps: 1600, unit: "METERS" },
+          { name: "Pull-up", reps: 100 },
+          { name: "Push-up", reps: 200 },
+          { name: "Air squat", reps: 300 },
+          { name: "Run", reps: 1600, unit: "METERS" },
+        ],
+      },
+    },
+  ];
+  for (const w of library) {
+    await prisma.workout.upsert({
+      where: { id: w.id },
+      update: {},
+      create: { ...w, division: "MEN" },
     });
   }
 
@@ -103,6 +167,7 @@ async function main() {
       { id: w1.id, name: w1.name, scoreType: w1.scoreType },
       { id: w2.id, name: w2.name, scoreType: w2.scoreType },
     ],
+    library: library.map((w) => w.name),
     user: { id: user.id, email: user.email },
   });
 }
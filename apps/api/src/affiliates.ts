@@ -0,0 +1,94 @@
+import { randomBytes } from "node:crypto";
+import type { Affiliate, AffiliateRole, LoadUnit } from "@prisma/client";
+import type { FastifyReply } from "fastify";
+import { prisma } from "./db.ts";
+import { formatClock } from "./scoreText.ts";
+import { scoreValue } from "./percentiles.ts";
+import { formatLoad } from "./units.ts";
+import type { NormalizedScore, ScoringRules } from "./scoring.ts";
+
+// Uten 0/O og 1/I, så koden kan leses opp på tavla
+const INVITE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+
+export function generateInviteCode(): string {
+  return [...randomBytes(8)].map((b) => INVITE_ALPHABET[b % INVITE_ALPHABET.length]).join("");
+}
+
+/**
+ * Sjekker at brukeren kan se affiliaten: medlem av den, eller av gruppen den er en boks i.
+ * Med roles kreves en av rollene (i affiliaten eller gruppen). Svarer 403/404 og gir null ellers.
+ */
+export async function requireAffiliateAccess(
+  reply: FastifyReply,
+  userId: string,
+  affiliateId: string,
+  roles?: AffiliateRole[],
+): Promise<Affiliate | null> {
+  const affiliate = await prisma.affiliate.findUnique({ where: { id: affiliateId } });
+  if (!affiliate) {
+    reply.code(404).send({ error: "Affiliate not found" });
+    return null;
+  }
+
+  const memberships = await prisma.affiliateMembership.findMany({
+    where: { userId, affiliateId: { in: [affiliate.id, ...(affiliate.parentId ? [affiliate.parentId] : [])] } },
+  });
+  const allowed = roles ? memberships.some((m) => roles.includes(m.role)) : memberships.length > 0;
+  if (!allowed) {
+    reply.code(403).send({ error: "Not a member of this affiliate" });
+    return null;
+  }
+  return affiliate;
+}
+
+/** Brukerne i affiliatens scope: egne medlemmer pluss medlemmene i boksene under den. */
+export async function affiliateScopeUserIds(affiliateId: string): Promise<string[]> {
+  const rows = await prisma.affiliateMembership.findMany({
+    where: { OR: [{ affiliateId }, { affiliate: { parentId: affiliateId } }] },
+    select: { userId: true },
+  });
+  return [...new Set(rows.map((r) => r.userId))];
+}
+
+/**
+ * Brukerne en coach/eier kan dømme resultatene til: medlemmer av affiliater der de er
+ * OWNER/COACH, inkludert boksene under en gruppe. Med affiliateId bare den affiliaten.
+ */
+export async function reviewableUserIds(reviewerId: string, affiliateId?: string): Promise<Set<string>> {
+  const staffed = await prisma.affiliateMembership.findMany({
+    where: { userId: reviewerId, role: { in: ["OWNER", "COACH"] } },
+    select: { affiliateId: true },
+  });
+  const ids = staffed.map((m) => m.affiliateId);
+  const rows = await prisma.affiliateMembership.findMany({
+    where: {
+      AND: [
+        { OR: [{ affiliateId: { in: ids } }, { affiliate: { parentId: { in: ids } } }] },
+        affiliateId ? { OR: [{ affiliateId }, { affiliate: { parentId: affiliateId } }] } : {},
+      ],
+    },
+    select: { userId: true },
+  });
+  return new Set(rows.map((r) => r.userId));
+}
+
+export type ScoreAverage = { value: number; display: string } | null;
+
+/**
+ * Gjennomsnittsscore i workoutens enhet (sekunder, reps eller kg; display i loadUnit). Capped TIME
+ * regnes som cap + 1 sekund per rep igjen, som i fordelingen for hele feltet.
+ */
+export function averageScore(rules: ScoringRules, scores: NormalizedScore[], loadUnit: LoadUnit = "KG"): ScoreAverage {
+  if (scores.length === 0) return null;
+  const mean = scores.reduce((sum, s) => sum + scoreValue(rules, s), 0) / scores.length;
+
+  switch (rules.scoreType) {
+    case "TIME":
+      return { value: Math.round(-mean), display: formatClock(-mean) };
+    case "REPS":
+    case "TIME_REPS":
+      return { value: Math.round(mean * 10) / 10, display: `${Math.round(mean * 10) / 10} reps` };
+    case "LOAD":
+      return { value: Math.round(mean * 10) / 10, display: formatLoad(mean, loadUnit) };
+  }
+}
@@ -0,0 +1,229 @@
+import { createHash, createHmac, randomBytes, scrypt, timingSafeEqual } from "node:crypto";
+import { promisify } from "node:util";
+import type { FastifyInstance, FastifyReply, FastifyRequest } from "fastify";
+import type { User } from "@prisma/client";
+import { prisma } from "./db.ts";
+import { env } from "./env.ts";
+import { mailer } from "./mailer.ts";
+
+export type AuthUser = Pick<User, "id" | "email" | "name" | "loadUnit">;
+
+declare module "fastify" {
+  interface FastifyRequest {
+    authUser: AuthUser | null;
+    sessionId: string | null;
+  }
+}
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>;
+
+const MAGIC_LINK_TTL_MS = 15 * 60 * 1000;
+const MAGIC_LINK_RESEND_MS = 60 * 1000;
+const CLAIM_CODE_TTL_MS = 7 * 24 * 3600 * 1000;
+
+export function normalizeIdentifier(raw: string): string {
+  return raw.trim().normalize("NFC").toLocaleLowerCase("nb-NO");
+}
+
+export function isEmailIdentifier(identifier: string): boolean {
+  return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(identifier);
+}
+
+// Leser "Authorization: Bearer <token>" på alle requests; rutene bestemmer selv om innlogging kreves.
+export function registerAuth(app: FastifyInstance): void {
+  app.decorateRequest("authUser", null);
+  app.decorateRequest("sessionId", null);
+
+  app.addHook("onRequest", async (req) => {
+    const header = req.headers.authorization;
+    if (!header?.startsWith("Bearer ")) return;
+
+    const session = await verifySessionToken(header.slice("Bearer ".length).trim());
+    if (!session) return;
+    req.authUser = session.user;
+    req.sessionId = session.sessionId;
+  });
+}
+
+export function requireUser(req: FastifyRequest, reply: FastifyReply): AuthUser | null {
+  if (!req.authUser) {
+    reply.code(401).send({ error: "Not authenticated" });
+    return null;
+  }
+  return req.authUser;
+}
+
+// --- Passord (scrypt, "salt:hash" i hex) ---
+
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16);
+  const hash = await scryptAsync(password, salt, 64);
+  return `${salt.toString("hex")}:${hash.toString("hex")}`;
+}
+
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [saltHex, hashHex] = stored.split(":");
+  if (!saltHex || !hashHex) return false;
+  const expected = Buffer.from(hashHex, "hex");
+  const actual = await scryptAsync(password, Buffer.from(saltHex, "hex"), expected.length);
+  return timingSafeEqual(actual, expected);
+}
+
+/** Sammenligner en hemmelighet (f.eks. admin-token) på konstant tid; hashene har lik lengde uansett input. */
+export function secretEquals(actual: string, expected: string): boolean {
+  return timingSafeEqual(Buffer.from(sha256(actual), "hex"), Buffer.from(sha256(expected), "hex"));
+}
+
+// --- Sesjoner som signerte JWT-er (HS256); sid peker på Session-raden slik at logout kan trekke dem tilbake ---
+
+type TokenPayload = { sub: string; sid: string; iat: number; exp: number };
+
+export async function createSession(userId: string): Promise<{ token: string; expiresAt: Date }> {
+  const expiresAt = new Date(Date.now() + env.SESSION_TTL_HOURS * 3600 * 1000);
+  const session = await prisma.session.create({ data: { userId, expiresAt } });
+
+  const token = signJwt({
+    sub: userId,
+    sid: session.id,
+    iat: Math.floor(Date.now() / 1000),
+    exp: Math.floor(expiresAt.getTime() / 1000),
+  });
+  return { token, expiresAt };
+}
+
+export async function revokeSession(sessionId: string): Promise<void> {
+  await prisma.session.updateMany({ where: { id: sessionId, revokedAt: null }, data: { revokedAt: new Date() } });
+}
+
+async function verifySessionToken(token: string): Promise<{ user: AuthUser; sessionId: string } | null> {
+  const payload = verifyJwt(token);
+  if (!payload || payload.exp * 1000 < Date.now()) return null;
+
+  const session = await prisma.session.findUnique({
+    where: { id: payload.sid },
+    include: { user: { select: { id: true, email: true, name: true, loadUnit: true } } },
+  });
+  if (!session || session.revokedAt || session.expiresAt < new Date() || session.userId !== payload.sub) return null;
+  return { user: session.user, sessionId: session.id };
+}
+
+function signJwt(payload: TokenPayload): string {
+  const head = base64url(JSON.stringify({ alg: "HS256", typ: "JWT" }));
+  const body = base64url(JSON.stringify(payload));
+  return `${head}.${body}.${hmac(`${head}.${body}`)}`;
+}
+
+function verifyJwt(token: string): TokenPayload | null {
+  const [head, body, sig] = token.split(".");
+  if (!head || !body || !sig) return null;
+
+  const expected = Buffer.from(hmac(`${head}.${body}`));
+  const actual = Buffer.from(sig);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return null;
+
+  try {
+    const payload = JSON.parse(Buffer.from(body, "base64url").toString("utf8")) as Partial<TokenPayload>;
+    if (typeof payload.sub !== "string" || typeof payload.sid !== "string" || typeof payload.exp !== "number") {
+      return null;
+    }
+    return payload as TokenPayload;
+  } catch {
+    return null;
+  }
+}
+
+function hmac(data: string): string {
+  return createHmac("sha256", env.AUTH_SECRET).update(data).digest("base64url");
+}
+
+function base64url(s: string): string {
+  return Buffer.from(s, "utf8").toString("base64url");
+}
+
+// --- Magic link ---
+
+/**
+ * Lager et engangstoken og sender lenken på mail. Kun hashen lagres. userId er null når mailen
+ * ikke har konto; den opprettes først når lenken brukes. Ny lenke til samme mail sendes tidligst
+ * etter et minutt, så ruten ikke kan brukes til å spamme en adresse.
+ */
+export async function sendMagicLink(email: string, userId: string | null): Promise<void> {
+  const recent = await prisma.loginToken.findFirst({
+    where: { email, kind: "MAGIC_LINK", createdAt: { gt: new Date(Date.now() - MAGIC_LINK_RESEND_MS) } },
+    select: { id: true },
+  });
+  if (recent) return;
+
+  const token = randomBytes(32).toString("base64url");
+  await prisma.loginToken.create({
+    data: { userId, email, tokenHash: sha256(token), expiresAt: new Date(Date.now() + MAGIC_LINK_TTL_MS) },
+  });
+
+  const link = `${env.APP_URL.replace(/\/$/, "")}/login?token=${encodeURIComponent(token)}`;
+  await mailer.send({
+    to: email,
+    subject: "Logg inn på CF Benchmark",
+    text: `Trykk på lenken for å logge inn (gyldig i 15 minutter):\n\n${link}\n\nHar du ikke bedt om dette kan du se bort fra mailen.`,
+  });
+}
+
+/**
+ * Bruker opp et magic link-token. Kontoen regnes som tatt over (claimed) når eieren har vist at mailen er deres;
+ * har mailen ingen konto ennå, opprettes den her.
+ */
+export async function consumeMagicLink(token: string): Promise<string | null> {
+  const row = await prisma.loginToken.findUnique({ where: { tokenHash: sha256(token) } });
+  if (!row || row.kind !== "MAGIC_LINK" || row.usedAt || row.expiresAt < new Date()) return null;
+
+  const used = await prisma.loginToken.updateMany({
+    where: { id: row.id, usedAt: null },
+    data: { usedAt: new Date() },
+  });
+  if (used.count === 0) return null;
+
+  const userId =
+    row.userId ??
+    (
+      await prisma.user.upsert({
+        where: { email: row.email! },
+        update: {},
+        create: { email: row.email!, name: row.email!.split("@")[0], claimedAt: new Date() },
+      })
+    ).id;
+  await prisma.user.updateMany({ where: { id: userId, claimedAt: null }, data: { claimedAt: new Date() } });
+  return userId;
+}
+
+// --- Claim-kode: gamle kontoer med brukernavn har ingen mail å sende lenken til ---
+
+/** Admin lager en engangskode til eieren av kontoen; tidligere ubrukte koder slutter å gjelde. */
+export async function issueClaimCode(userId: string): Promise<{ code: string; expiresAt: Date }> {
+  const code = randomBytes(9).toString("base64url");
+  const expiresAt = new Date(Date.now() + CLAIM_CODE_TTL_MS);
+  await prisma.$transaction([
+    prisma.loginToken.updateMany({
+      where: { userId, kind: "CLAIM_CODE", usedAt: null },
+      data: { usedAt: new Date() },
+    }),
+    prisma.loginToken.create({ data: { kind: "CLAIM_CODE", userId, tokenHash: sha256(code), expiresAt } }),
+  ]);
+  return { code, expiresAt };
+}
+
+/** Bruker opp en claim-kode; gyldig bare for kontoen den ble laget til. */
+export async function consumeClaimCode(userId: string, code: string): Promise<boolean> {
+  const row = await prisma.loginToken.findUnique({ where: { tokenHash: sha256(code) } });
+  if (!row || row.kind !== "CLAIM_CODE" || row.userId !== userId || row.usedAt || row.expiresAt < new Date()) {
+    return false;
+  }
+
+  const used = await prisma.loginToken.updateMany({
+    where: { id: row.id, usedAt: null },
+    data: { usedAt: new Date() },
+  });
+  return used.count > 0;
+}
+
+function sha256(s: string): string {
+  return createHash("sha256").update(s).digest("hex");
+}
@@ -0,0 +1,89 @@
+import { prisma } from "./db.ts";
+import { compareSortKeys, type NormalizedScore } from "./scoring.ts";
+
+export type BenchmarkScores = {
+  // TOP40: importert Top 40; COMMUNITY: godkjente bidrag fra brukerne (bibliotek-workouts)
+  source: "TOP40" | "COMMUNITY" | null;
+  // Beste først (etter lagret sortKey)
+  scores: NormalizedScore[];
+};
+
+// Benchmark-scorene endres bare ved import, community-bidrag og endret scoring; de stedene tømmer
+// cachen for workoutene det gjelder. Cachen er per prosess, så endringer fra en annen prosess
+// (importCli, andre API-instanser) blir synlige når oppføringen går ut.
+const TTL_MS = 60_000;
+const cached = new Map<string, { scores: BenchmarkScores; loadedAt: number }>();
+// Økes ved hver tømming, så en henting som startet før ikke legger gamle scores tilbake
+let generation = 0;
+
+const SELECT = {
+  workoutId: true,
+  timeSeconds: true,
+  reps: true,
+  loadKg: true,
+  tiebreakSecs: true,
+  sortKey: true,
+} as const;
+
+type Row = NormalizedScore & { workoutId: string; sortKey: number[] };
+
+function groupSorted(rows: Row[]): Map<string, NormalizedScore[]> {
+  const out = new Map<string, NormalizedScore[]>();
+  for (const { workoutId, ...r } of [...rows].sort((a, b) => compareSortKeys(a.sortKey, b.sortKey))) {
+    const list = out.get(workoutId);
+    const score = { timeSeconds: r.timeSeconds, reps: r.reps, loadKg: r.loadKg, tiebreakSecs: r.tiebreakSecs };
+    if (list) list.push(score);
+    else out.set(workoutId, [score]);
+  }
+  return out;
+}
+
+/**
+ * Benchmark-scorene for flere workouts; de som mangler i cachen hentes med to spørringer til sammen.
+ * Top 40 når det finnes, ellers godkjente community-scores.
+ */
+export async function getBenchmarkScores(workoutIds: string[]): Promise<Map<string, BenchmarkScores>> {
+  const now = Date.now();
+  const fresh = new Map<string, BenchmarkScores>();
+  for (const id of workoutIds) {
+    const entry = cached.get(id);
+    if (entry && now - entry.loadedAt < TTL_MS) fresh.set(id, entry.scores);
+  }
+  const missing = [...new Set(workoutIds)].filter((id) => !fresh.has(id));
+  if (missing.length > 0) {
+    const started = generation;
+    const top40 = groupSorted(
+      await prisma.benchmarkResult.findMany({ where: { workoutId: { in: missing } }, select: SELECT }),
+    );
+    const withoutTop40 = missing.filter((id) => !top40.has(id));
+    const community = groupSorted(
+      withoutTop40.length > 0
+        ? await prisma.communityBenchmark.findMany({
+          where: { workoutId: { in: withoutTop40 }, approvedAt: { not: null } },
+          select: SELECT,
+        })
+        : [],
+    );
+
+    const loaded = new Map<string, BenchmarkScores>();
+    for (const id of missing) {
+      const scores = top40.get(id) ?? community.get(id);
+      loaded.set(id, { source: top40.has(id) ? "TOP40" : scores ? "COMMUNITY" : null, scores: scores ?? [] });
+    }
+    if (started === generation) for (const [id, scores] of loaded) cached.set(id, { scores, loadedAt: now });
+    for (const [id, scores] of loaded) fresh.set(id, scores);
+  }
+  return new Map(workoutIds.map((id) => [id, fresh.get(id)!]));
+}
+
+/** Benchmark-scorene en workout sammenlignes mot; Top 40 når det finnes, ellers community-data. */
+export async function loadBenchmarkScores(workoutId: string): Promise<BenchmarkScores> {
+  return (await getBenchmarkScores([workoutId])).get(workoutId)!;
+}
+
+/** Uten workoutIds tømmes hele cachen. */
+export function invalidateBenchmarks(workoutIds?: string[]): void {
+  generation += 1;
+  if (!workoutIds) cached.clear();
+  else for (const id of workoutIds) cached.delete(id);
+}
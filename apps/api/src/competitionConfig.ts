@@ -0,0 +1,18 @@
+import type { CompetitionConfig, CompetitionType } from "@prisma/client";
+import { prisma } from "./db.ts";
+
+export type CompetitionSettings = Pick<CompetitionConfig, "tiePointsRule" | "pointsScheme">;
+
+const DEFAULT_SETTINGS: CompetitionSettings = { tiePointsRule: "SHARED_HIGHEST", pointsScheme: "LINEAR_41" };
+
+// Bibliotek-workouts (uten sesong) bruker alltid standardinnstillingene
+export async function getCompetitionSettings(
+  seasonId: string | null,
+  competition: CompetitionType,
+): Promise<CompetitionSettings> {
+  if (!seasonId) return DEFAULT_SETTINGS;
+  const row = await prisma.competitionConfig.findUnique({
+    where: { seasonId_competition: { seasonId, competition } },
+  });
+  return row ?? DEFAULT_SETTINGS;
+}
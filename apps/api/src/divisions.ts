@@ -0,0 +1,85 @@
+import type { Division, ScalingLevel, User, Workout } from "@prisma/client";
+import { z } from "zod";
+import { prisma } from "./db.ts";
+
+export type DivisionProfile = Pick<User, "birthYear" | "gender" | "defaultDivision" | "defaultScaling">;
+
+export const DIVISION_PROFILE_SELECT = {
+  birthYear: true,
+  gender: true,
+  defaultDivision: true,
+  defaultScaling: true,
+} as const;
+
+// Divisjonene endres sjelden; cachen tømmes når admin lagrer en divisjon
+let cached: Division[] | null = null;
+
+export async function listDivisions(): Promise<Division[]> {
+  cached ??= await prisma.division.findMany({ orderBy: [{ sortOrder: "asc" }, { code: "asc" }] });
+  return cached;
+}
+
+export function invalidateDivisions(): void {
+  cached = null;
+}
+
+/** Validerer en divisjonskode mot divisjonene i databasen ("men_40_44" godtas som MEN_40_44). */
+export async function getDivisionSchema(): Promise<z.ZodType<string, z.ZodTypeDef, unknown>> {
+  const codes = new Set((await listDivisions()).map((d) => d.code));
+  return z
+    .string()
+    .trim()
+    .toUpperCase()
+    .refine((code) => codes.has(code), { message: `Ukjent divisjon. Gyldige: ${[...codes].join(", ")}` });
+}
+
+/**
+ * Divisjonen brukeren konkurrerer i en sesong: valgt standarddivisjon, ellers den
+ * aldersdivisjonen (teens/masters) alderen i sesongåret passer i, ellers den åpne.
+ * Adaptive-divisjoner velges bare eksplisitt.
+ */
+export function resolveDivision(profile: DivisionProfile, seasonYear: number, divisions: Division[]): string | null {
+  if (profile.defaultDivision) return profile.defaultDivision;
+  if (!profile.gender) return null;
+
+  const candidates = divisions.filter((d) => d.gender === profile.gender && !d.adaptiveCategory);
+  const age = profile.birthYear ? seasonYear - profile.birthYear : null;
+  const byAge =
+    age == null
+      ? undefined
+      : candidates.find(
+        (d) =>
+          (d.minAge != null || d.maxAge != null) &&
+          (d.minAge == null || age >= d.minAge) &&
+          (d.maxAge == null || age <= d.maxAge),
+      );
+
+  return (byAge ?? candidates.find((d) => d.minAge == null && d.maxAge == null))?.code ?? null;
+}
+
+export async function resolveUserDivision(profile: DivisionProfile, seasonYear: number): Promise<string | null> {
+  return resolveDivision(profile, seasonYear, await listDivisions());
+}
+
+export function resolveScaling(profile: DivisionProfile): ScalingLevel {
+  return profile.defaultScaling ?? "RX";
+}
+
+/** Samme workout i en annen divisjon/skalering; variantene deler sesong, konkurranse, navn og eier. */
+export async function findWorkoutVariant(
+  workout: Pick<Workout, "seasonId" | "competition" | "name" | "ownerUserId" | "ownerAffiliateId">,
+  division: string,
+  scaling: ScalingLevel,
+): Promise<Workout | null> {
+  return prisma.workout.findFirst({
+    where: {
+      seasonId: workout.seasonId,
+      competition: workout.competition,
+      name: workout.name,
+      ownerUserId: workout.ownerUserId,
+      ownerAffiliateId: workout.ownerAffiliateId,
+      division,
+      scaling,
+    },
+  });
+}
@@ -4,6 +4,13 @@ import { z } from "zod";
 const EnvSchema = z.object({
   DATABASE_URL: z.string().min(1),
   PORT: z.coerce.number().int().positive().default(3000),
+  ADMIN_TOKEN: z.string().min(16).optional(),
+  AUTH_SECRET: z.string().min(32),
+  SESSION_TTL_HOURS: z.coerce.number().int().positive().default(24 * 30),
+  APP_URL: z.string().url().default("http://localhost:8081"),
+  MAIL_TRANSPORT: z.enum(["console", "file"]).default("console"),
+  MAIL_DIR: z.string().min(1).default("mail-outbox"),
+  MAIL_FROM: z.string().min(1).default("CF Benchmark <no-reply@localhost>"),
 });
 
 export const env = EnvSchema.parse(process.env);
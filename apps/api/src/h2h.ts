@@ -0,0 +1,152 @@
+import type { LoadUnit } from "@prisma/client";
+import { prisma } from "./db.ts";
+import { countingResults, resultScore } from "./results.ts";
+import { compareScores, isCapped, type NormalizedScore, type ScoringRules } from "./scoring.ts";
+import { scoreValue } from "./percentiles.ts";
+import { formatClock, formatScore } from "./scoreText.ts";
+import { formatLoad } from "./units.ts";
+import { loadSeasonResults, type SeasonContext } from "./season.ts";
+import type { H2HSide } from "./validators.ts";
+
+export type H2HParticipant = {
+  kind: "USER" | "ATHLETE";
+  id: string;
+  name: string | null;
+  // Totalplasseringen i Top 40 for en benchmark-utøver
+  rank: number | null;
+  // Utøverens plassering (BenchmarkAthlete) i sesongen, som resultatene hører til
+  placementId: string | null;
+};
+
+export type Margin = {
+  value: number;
+  unit: "SECONDS" | "REPS" | "KG";
+  // Avstanden i prosent av vinnerens score
+  percent: number;
+  display: string;
+};
+
+export type H2HWorkout = {
+  workoutId: string;
+  name: string;
+  a: { score: NormalizedScore; display: string } | null;
+  b: { score: NormalizedScore; display: string } | null;
+  // null når en av sidene mangler score
+  winner: "A" | "B" | "TIE" | null;
+  margin: Margin | null;
+};
+
+export type H2HRecord = { aWins: number; bWins: number; ties: number; compared: number };
+
+/** Finner deltakeren bak en side; null når brukeren/utøveren ikke finnes i ctx sin sesong og konkurranse. */
+export async function resolveParticipant(
+  ctx: SeasonContext,
+  side: Exclude<H2HSide, { kind: "ME" }>,
+): Promise<H2HParticipant | null> {
+  if (side.kind === "USER") {
+    const user = await prisma.user.findUnique({ where: { id: side.id }, select: { id: true, name: true } });
+    return user && { kind: "USER", id: user.id, name: user.name, rank: null, placementId: null };
+  }
+
+  // En utøver (Athlete) kan ha konkurrert i en annen divisjon enn ctx; ctx sin divisjon foretrekkes
+  const placements = await prisma.benchmarkAthlete.findMany({
+    where: {
+      seasonId: ctx.season.id,
+      competition: ctx.competition,
+      ...(side.kind === "ATHLETE"
+        ? { athleteId: side.id }
+        : { division: ctx.division, scaling: ctx.scaling, rank: side.rank }),
+    },
+    orderBy: { id: "asc" },
+  });
+  const placement =
+    placements.find((p) => p.division === ctx.division && p.scaling === ctx.scaling) ?? placements[0];
+  if (!placement) return null;
+  return {
+    kind: "ATHLETE",
+    id: placement.athleteId,
+    name: placement.name,
+    rank: placement.rank,
+    placementId: placement.id,
+  };
+}
+
+/**
+ * Scoren per workout i ctx (nøkkel: workoutId i ctx). For en bruker forsøket som teller;
+ * en utøver fra en annen divisjon matches på workoutnavn, som i loadSeasonResults.
+ */
+export async function loadParticipantScores(
+  ctx: SeasonContext,
+  participant: H2HParticipant,
+): Promise<Map<string, NormalizedScore>> {
+  if (participant.kind === "USER") {
+    const counting = countingResults(ctx.workouts, await loadSeasonResults(ctx, { userId: participant.id }));
+    return new Map(counting.map((r) => [r.workoutId, resultScore(r)]));
+  }
+
+  const byName = new Map(ctx.workouts.map((w) => [w.name, w.id]));
+  const rows = await prisma.benchmarkResult.findMany({
+    where: {
+      athleteId: participant.placementId!,
+      workout: { seasonId: ctx.season.id, name: { in: [...byName.keys()] } },
+    },
+    include: { workout: { select: { name: true } } },
+  });
+  return new Map(rows.map((r) => [byName.get(r.workout.name)!, resultScore(r)]));
+}
+
+/**
+ * Hvor langt vinneren var foran, i workoutens enhet. Capped TIME mot fullført regnes
+ * som cap + 1 sekund per rep igjen (som i fordelingen for hele feltet); to capped i reps.
+ */
+export function scoreMargin(
+  rules: ScoringRules,
+  winner: NormalizedScore,
+  loser: NormalizedScore,
+  loadUnit: LoadUnit,
+): Margin {
+  const bothCapped = isCapped(rules.scoreType, winner) && isCapped(rules.scoreType, loser);
+  const w = bothCapped ? winner.reps! : scoreValue(rules, winner);
+  const l = bothCapped ? loser.reps! : scoreValue(rules, loser);
+  const value = Math.round(Math.abs(w - l) * 100) / 100;
+  const percent = w === 0 ? 0 : Math.round((value / Math.abs(w)) * 1000) / 10;
+
+  if (rules.scoreType === "LOAD") return { value, unit: "KG", percent, display: formatLoad(value, loadUnit) };
+  if (rules.scoreType === "TIME" && !bothCapped) return { value, unit: "SECONDS", percent, display: formatClock(value) };
+  return { value, unit: "REPS", percent, display: `${value} reps` };
+}
+
+/** Vinner og margin per workout, og sammenlagt seier/tap/uavgjort over workoutene begge har score på. */
+export function headToHead(
+  ctx: SeasonContext,
+  a: Map<string, NormalizedScore>,
+  b: Map<string, NormalizedScore>,
+  loadUnit: LoadUnit,
+): { workouts: H2HWorkout[]; record: H2HRecord } {
+  const record: H2HRecord = { aWins: 0, bWins: 0, ties: 0, compared: 0 };
+  const side = (w: ScoringRules, s: NormalizedScore | undefined) =>
+    s ? { score: s, display: formatScore(w, s, loadUnit) } : null;
+
+  const workouts = ctx.workouts.map((w): H2HWorkout => {
+    const sa = a.get(w.id);
+    const sb = b.get(w.id);
+    const row: H2HWorkout = { workoutId: w.id, name: w.name, a: side(w, sa), b: side(w, sb), winner: null, margin: null };
+    if (!sa || !sb) return row;
+
+    record.compared += 1;
+    const cmp = compareScores(w, sa, sb);
+    if (cmp === 0) {
+      record.ties += 1;
+      return { ...row, winner: "TIE", margin: scoreMargin(w, sa, sb, loadUnit) };
+    }
+    if (cmp < 0) record.aWins += 1;
+    else record.bWins += 1;
+    return {
+      ...row,
+      winner: cmp < 0 ? "A" : "B",
+      margin: cmp < 0 ? scoreMargin(w, sa, sb, loadUnit) : scoreMargin(w, sb, sa, loadUnit),
+    };
+  });
+
+  return { workouts, record };
+}
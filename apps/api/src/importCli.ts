@@ -0,0 +1,62 @@
+// Bruk:
+//   pnpm --filter api import:benchmark --season 2026 --competition OPEN --division MEN [--scaling SCALED] \
+//     --workouts workouts.json --file top40.csv [--load-unit LB] [--dry-run]
+import "dotenv/config";
+import { readFile } from "node:fs/promises";
+import { extname } from "node:path";
+import { parseArgs } from "node:util";
+import { prisma } from "./db.ts";
+import { importBenchmark } from "./importer.ts";
+import { BenchmarkImportSchema } from "./validators.ts";
+
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      season: { type: "string" },
+      competition: { type: "string" },
+      division: { type: "string" },
+      scaling: { type: "string" },
+      workouts: { type: "string" },
+      file: { type: "string" },
+      format: { type: "string" },
+      "load-unit": { type: "string" },
+      "dry-run": { type: "boolean", default: false },
+    },
+  });
+
+  if (!values.workouts || !values.file) {
+    throw new Error("Mangler --workouts <fil.json> og/eller --file <fil.csv|fil.json>");
+  }
+
+  const format = values.format ?? extname(values.file).slice(1).toLowerCase();
+  const input = BenchmarkImportSchema.parse({
+    season: Number(values.season),
+    competition: values.competition,
+    division: values.division,
+    scaling: values.scaling,
+    loadUnit: values["load-unit"]?.toUpperCase(),
+    format,
+    workouts: JSON.parse(await readFile(values.workouts, "utf8")),
+    data: await readFile(values.file, "utf8"),
+    dryRun: values["dry-run"],
+  });
+
+  const report = await importBenchmark(prisma, input);
+
+  for (const e of report.errors) {
+    const where = [`rad ${e.row}`, e.athlete, e.workout].filter(Boolean).join(" / ");
+    console.error(`${where}: ${e.message}`);
+  }
+  console.log(JSON.stringify({ ...report, errors: report.errors.length }, null, 2));
+
+  if (report.errors.length > 0) process.exitCode = 1;
+}
+
+main()
+  .catch((e) => {
+    console.error(e);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
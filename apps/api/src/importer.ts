@@ -0,0 +1,551 @@
+import type {
+  Athlete,
+  CompetitionType,
+  LoadUnit,
+  Prisma,
+  PrismaClient,
+  ScalingLevel,
+  ScoreType,
+  Workout,
+} from "@prisma/client";
+import { assertScoreMatchesType, defaultTiebreakPolicy, scoreSortKey, type NormalizedScore } from "./scoring.ts";
+import { refreshSortKeys } from "./results.ts";
+import { invalidateBenchmarks } from "./benchmarkCache.ts";
+import { parseClockToSeconds, parseScoreText } from "./scoreText.ts";
+import { toKg } from "./units.ts";
+import { parseDistribution, replaceDistribution, type Breakpoint } from "./percentiles.ts";
+import type { BenchmarkImportInput } from "./validators.ts";
+import { renderDescription, structureDefaults } from "./workoutStructure.ts";
+import { assertSplitsMatchScore, parseSplits } from "./pacing.ts";
+
+export type ImportRowError = {
+  row: number;
+  athlete?: string;
+  workout?: string;
+  message: string;
+};
+
+type ImportWorkout = BenchmarkImportInput["workouts"][number];
+
+type ImportAthleteRow = {
+  row: number;
+  rank: number;
+  name: string;
+  // Valgfritt; brukes til å kjenne igjen utøveren fra tidligere sesonger
+  externalId?: string;
+  country?: string;
+  affiliate?: string;
+  scores: Map<string, NormalizedScore>;
+  splits: Map<string, number[]>;
+};
+
+export type BenchmarkImportReport = {
+  dryRun: boolean;
+  applied: boolean;
+  season: number;
+  competition: CompetitionType;
+  division: string;
+  scaling: ScalingLevel;
+  workouts: Array<{ id: string | null; name: string; scoreType: ScoreType; scores: number; percentiles: number }>;
+  athletes: number;
+  // Utøvere som ble koblet til en eksisterende Athlete (fra før eller fra en annen sesong)
+  matchedAthletes: number;
+  results: number;
+  errors: ImportRowError[];
+};
+
+// Valgfrie kolonner (CSV) / felt (JSON) om utøveren
+const ATHLETE_DETAIL_FIELDS = ["externalId", "country", "affiliate"] as const;
+type AthleteDetailField = (typeof ATHLETE_DETAIL_FIELDS)[number];
+
+const TIEBREAK_SUFFIX = " tiebreak";
+// "<workout> splits": kumulative tider skilt med mellomrom, f.eks. "1:02 2:10 2:48"
+const SPLITS_SUFFIX = " splits";
+
+/**
+ * Parser en Top 40-eksport (CSV eller JSON) og skriver workouts, utøvere og
+ * resultater. Med dryRun, eller ved valideringsfeil, skrives ingenting.
+ */
+export async function importBenchmark(
+  prisma: PrismaClient,
+  input: BenchmarkImportInput,
+): Promise<BenchmarkImportReport> {
+  const errors: ImportRowError[] = [];
+  const workouts = input.workouts.map(withStructureDefaults);
+  const rows =
+    input.format === "csv"
+      ? parseCsvRows(input.data, workouts, input.loadUnit, errors)
+      : parseJsonRows(input.data, workouts, input.loadUnit, errors);
+
+  checkDuplicateAthletes(rows, errors);
+
+  const division = await prisma.division.findUnique({ where: { code: input.division } });
+  if (!division) errors.push({ row: 0, message: `Ukjent divisjon: ${input.division}` });
+
+  const distributions = new Map<string, Breakpoint[]>();
+  for (const w of workouts) {
+    if (!w.distribution) continue;
+    try {
+      distributions.set(w.name, parseDistribution(w, w.distribution));
+    } catch (e) {
+      errors.push({ row: 0, workout: w.name, message: `Fordeling: ${(e as Error).message}` });
+    }
+  }
+
+  const repeatOfIds = new Map<string, string>();
+  for (const w of workouts) {
+    if (!w.repeatOf) continue;
+    const original = await prisma.workout.findFirst({
+      where: {
+        season: { year: w.repeatOf.season },
+        competition: input.competition,
+        division: input.division,
+        scaling: input.scaling,
+        name: w.repeatOf.name,
+      },
+    });
+    if (!original) {
+      errors.push({ row: 0, workout: w.name, message: `repeatOf: fant ikke ${w.repeatOf.name} i ${w.repeatOf.season}` });
+      continue;
+    }
+    repeatOfIds.set(w.name, original.id);
+  }
+
+  const report: BenchmarkImportReport = {
+    dryRun: input.dryRun,
+    applied: false,
+    season: input.season,
+    competition: input.competition,
+    division: input.division,
+    scaling: input.scaling,
+    workouts: workouts.map((w) => ({
+      id: null,
+      name: w.name,
+      scoreType: w.scoreType,
+      scores: rows.filter((r) => r.scores.has(w.name)).length,
+      percentiles: w.distribution?.percentiles.length ?? 0,
+    })),
+    athletes: rows.length,
+    matchedAthletes: 0,
+    results: rows.reduce((sum, r) => sum + r.scores.size, 0),
+    errors,
+  };
+
+  if (input.dryRun || errors.length > 0) return report;
+
+  await prisma.$transaction(
+    async (tx) => {
+      const season = await tx.season.upsert({
+        where: { year: input.season },
+        update: {},
+        create: { year: input.season },
+      });
+
+      const saved = new Map<string, Workout>();
+      for (const w of workouts) {
+        const existing = await tx.workout.findFirst({
+          where: {
+            seasonId: season.id,
+            competition: input.competition,
+            division: input.division,
+            scaling: input.scaling,
+            name: w.name,
+          },
+        });
+        // Felt som ikke er med i en ny import av en eksisterende workout beholder verdien sin;
+        // tiebreak-regelen bare så lenge scoretypen er den samme
+        const keptPolicy = existing?.scoreType === w.scoreType ? existing.tiebreakPolicy : null;
+        const data = {
+          description: w.description || (w.structure ? renderDescription(w.structure, input.division) : ""),
+          scoreType: w.scoreType,
+          timeCapSeconds: w.timeCapSeconds ?? existing?.timeCapSeconds ?? null,
+          totalReps: w.totalReps ?? existing?.totalReps ?? null,
+          tiebreakPolicy: w.tiebreakPolicy ?? keptPolicy ?? defaultTiebreakPolicy(w.scoreType),
+          ...(w.resultPolicy ? { resultPolicy: w.resultPolicy } : {}),
+          ...(w.structure ? { structure: w.structure } : {}),
+          ...(repeatOfIds.has(w.name) ? { repeatOfId: repeatOfIds.get(w.name) } : {}),
+        };
+        const workout = existing
+          ? await tx.workout.update({ where: { id: existing.id }, data })
+          : await tx.workout.create({
+            data: {
+              seasonId: season.id,
+              competition: input.competition,
+              division: input.division,
+              scaling: input.scaling,
+              name: w.name,
+              ...data,
+            },
+          });
+
+        // Ny scoring gir nye sorteringsnøkler for resultatene som alt er logget
+        const rescored =
+          existing && (existing.scoreType !== workout.scoreType || existing.tiebreakPolicy !== workout.tiebreakPolicy);
+        if (rescored) await refreshSortKeys(tx, workout);
+
+        const distribution = distributions.get(w.name);
+        if (distribution) await replaceDistribution(tx, workout.id, w.distribution!.fieldSize, distribution);
+        saved.set(w.name, workout);
+      }
+
+      const scope = {
+        seasonId: season.id,
+        competition: input.competition,
+        division: input.division,
+        scaling: input.scaling,
+      };
+      const athleteIds: string[] = [];
+      for (const row of rows) {
+        const { person, matched } = await matchAthlete(tx, scope, row);
+        if (matched) report.matchedAthletes += 1;
+        athleteIds.push(person.id);
+
+        const athlete = await tx.benchmarkAthlete.upsert({
+          where: { seasonId_competition_division_scaling_athleteId: { ...scope, athleteId: person.id } },
+          update: { rank: row.rank, name: row.name },
+          create: { ...scope, athleteId: person.id, rank: row.rank, name: row.name },
+        });
+
+        for (const [workoutName, score] of row.scores) {
+          const workout = saved.get(workoutName)!;
+          const workoutId = workout.id;
+          const data = {
+            timeSeconds: score.timeSeconds ?? null,
+            reps: score.reps ?? null,
+            loadKg: score.loadKg ?? null,
+            tiebreakSecs: score.tiebreakSecs ?? null,
+            sortKey: scoreSortKey(workout, score),
+            splits: row.splits.get(workoutName) ?? [],
+          };
+          await tx.benchmarkResult.upsert({
+            where: { workoutId_athleteId: { workoutId, athleteId: athlete.id } },
+            update: data,
+            create: { workoutId, athleteId: athlete.id, ...data },
+          });
+        }
+      }
+
+      // Som før identiteten fantes: en ny import for samme rank erstatter den som stod der
+      const replaced = await tx.benchmarkAthlete.findMany({
+        where: { ...scope, rank: { in: rows.map((r) => r.rank) }, athleteId: { notIn: athleteIds } },
+        select: { id: true },
+      });
+      const replacedIds = replaced.map((r) => r.id);
+      await tx.benchmarkResult.deleteMany({ where: { athleteId: { in: replacedIds } } });
+      await tx.benchmarkAthlete.deleteMany({ where: { id: { in: replacedIds } } });
+
+      for (const w of report.workouts) w.id = saved.get(w.name)?.id ?? null;
+    },
+    { timeout: 60_000 },
+  );
+
+  report.applied = true;
+  invalidateBenchmarks(report.workouts.flatMap((w) => (w.id ? [w.id] : [])));
+  return report;
+}
+
+// totalReps og timeCapSeconds fra strukturen når de ikke er satt
+function withStructureDefaults(w: ImportWorkout): ImportWorkout {
+  if (!w.structure) return w;
+  const derived = structureDefaults(w.structure);
+  return {
+    ...w,
+    totalReps: w.totalReps ?? derived.totalReps ?? undefined,
+    timeCapSeconds: w.timeCapSeconds ?? derived.timeCapSeconds ?? undefined,
+  };
+}
+
+function parseCsvRows(
+  text: string,
+  workouts: ImportWorkout[],
+  loadUnit: LoadUnit,
+  errors: ImportRowError[],
+): ImportAthleteRow[] {
+  const records = parseCsv(text);
+  if (records.length === 0) {
+    errors.push({ row: 0, message: "CSV er tom" });
+    return [];
+  }
+
+  const header = records[0].map((h) => h.trim());
+  const col = (name: string) => header.findIndex((h) => h.toLowerCase() === name.toLowerCase());
+  const rankCol = col("rank");
+  const nameCol = col("name");
+  if (rankCol === -1 || nameCol === -1) {
+    errors.push({ row: 1, message: "CSV-header må ha kolonnene rank og name" });
+    return [];
+  }
+
+  const known = new Set(workouts.map((w) => w.name.toLowerCase()));
+  const details = new Set(ATHLETE_DETAIL_FIELDS.map((f) => f.toLowerCase()));
+  for (const h of header) {
+    const suffix = [TIEBREAK_SUFFIX, SPLITS_SUFFIX].find((x) => h.toLowerCase().endsWith(x));
+    const base = suffix ? h.slice(0, -suffix.length) : h;
+    if (h === header[rankCol] || h === header[nameCol] || details.has(h.toLowerCase())) continue;
+    if (known.has(base.toLowerCase())) continue;
+    errors.push({ row: 1, message: `Ukjent kolonne "${h}"` });
+  }
+
+  const rows: ImportAthleteRow[] = [];
+  for (let i = 1; i < records.length; i++) {
+    const record = records[i];
+    const rowNo = i + 1;
+    if (record.every((c) => c.trim() === "")) continue;
+
+    const athlete = parseAthleteHead(rowNo, record[rankCol], record[nameCol], errors);
+    if (!athlete) continue;
+    for (const field of ATHLETE_DETAIL_FIELDS) setAthleteDetail(athlete, field, record[col(field)]);
+
+    for (const w of workouts) {
+      const cell = record[col(w.name)]?.trim() ?? "";
+      const tiebreakCell = record[col(w.name + TIEBREAK_SUFFIX)]?.trim() ?? "";
+      const splitsCell = record[col(w.name + SPLITS_SUFFIX)]?.trim() ?? "";
+      if (!cell && !tiebreakCell && !splitsCell) continue;
+
+      try {
+        if (!cell) throw new Error("Mangler score");
+        const score = parseScoreText(w, cell, loadUnit);
+        if (tiebreakCell) {
+          if (score.tiebreakSecs != null) throw new Error("Tiebreak er oppgitt både i scoren og i egen kolonne");
+          const tb = parseClockToSeconds(tiebreakCell);
+          if (tb == null) throw new Error(`Ugyldig tiebreak "${tiebreakCell}"`);
+          score.tiebreakSecs = tb;
+        }
+        if (splitsCell) athlete.splits.set(w.name, checkedSplits(w, score, splitsCell.split(/\s+/)));
+        athlete.scores.set(w.name, score);
+      } catch (e) {
+        errors.push({ row: rowNo, athlete: athlete.name, workout: w.name, message: (e as Error).message });
+      }
+    }
+    rows.push(athlete);
+  }
+  return rows;
+}
+
+function parseJsonRows(
+  text: string,
+  workouts: ImportWorkout[],
+  loadUnit: LoadUnit,
+  errors: ImportRowError[],
+): ImportAthleteRow[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (e) {
+    errors.push({ row: 0, message: `Ugyldig JSON: ${(e as Error).message}` });
+    return [];
+  }
+  if (!Array.isArray(parsed)) {
+    errors.push({ row: 0, message: "JSON må være en liste med utøvere" });
+    return [];
+  }
+
+  const byName = new Map(workouts.map((w) => [w.name, w]));
+  const rows: ImportAthleteRow[] = [];
+  parsed.forEach((entry, idx) => {
+    const rowNo = idx + 1;
+    if (!entry || typeof entry !== "object") {
+      errors.push({ row: rowNo, message: "Rad må være et objekt" });
+      return;
+    }
+    const e = entry as Record<string, unknown>;
+    const athlete = parseAthleteHead(rowNo, e.rank, e.name, errors);
+    if (!athlete) return;
+    for (const field of ATHLETE_DETAIL_FIELDS) setAthleteDetail(athlete, field, e[field]);
+
+    const scores = (e.scores ?? {}) as Record<string, unknown>;
+    if (typeof scores !== "object" || Array.isArray(scores)) {
+      errors.push({ row: rowNo, athlete: athlete.name, message: "scores må være et objekt" });
+      return;
+    }
+    const splits = (e.splits ?? {}) as Record<string, unknown>;
+    if (typeof splits !== "object" || Array.isArray(splits)) {
+      errors.push({ row: rowNo, athlete: athlete.name, message: "splits må være et objekt" });
+      return;
+    }
+    for (const workoutName of Object.keys(splits)) {
+      if (!byName.has(workoutName)) {
+        errors.push({ row: rowNo, athlete: athlete.name, workout: workoutName, message: "Ukjent workout i splits" });
+      }
+    }
+
+    for (const [workoutName, raw] of Object.entries(scores)) {
+      const w = byName.get(workoutName);
+      if (!w) {
+        errors.push({ row: rowNo, athlete: athlete.name, workout: workoutName, message: "Ukjent workout" });
+        continue;
+      }
+      if (raw == null) continue;
+
+      try {
+        const score =
+          typeof raw === "object"
+            ? pickScoreFields(raw as Record<string, unknown>, loadUnit)
+            : parseScoreText(w, String(raw), loadUnit);
+        assertScoreMatchesType(w, score);
+        const rawSplits = splits[w.name];
+        if (rawSplits != null) {
+          if (!Array.isArray(rawSplits)) throw new Error("splits må være en liste");
+          athlete.splits.set(w.name, checkedSplits(w, score, rawSplits));
+        }
+        athlete.scores.set(w.name, score);
+      } catch (err) {
+        errors.push({ row: rowNo, athlete: athlete.name, workout: w.name, message: (err as Error).message });
+      }
+    }
+    rows.push(athlete);
+  });
+  return rows;
+}
+
+function parseAthleteHead(row: number, rawRank: unknown, rawName: unknown, errors: ImportRowError[]): ImportAthleteRow | null {
+  const rank = Number(typeof rawRank === "string" ? rawRank.trim() : rawRank);
+  const name = typeof rawName === "string" ? rawName.trim() : "";
+
+  if (!Number.isInteger(rank) || rank < 1) {
+    errors.push({ row, athlete: name || undefined, message: `Ugyldig rank "${String(rawRank ?? "")}"` });
+    return null;
+  }
+  if (!name) {
+    errors.push({ row, message: "Mangler navn" });
+    return null;
+  }
+  return { row, rank, name, scores: new Map(), splits: new Map() };
+}
+
+function checkedSplits(w: ImportWorkout, score: NormalizedScore, raw: unknown[]): number[] {
+  const splits = parseSplits(raw.map((v) => (typeof v === "number" ? v : String(v))));
+  assertSplitsMatchScore(w, score, splits);
+  return splits;
+}
+
+function setAthleteDetail(athlete: ImportAthleteRow, field: AthleteDetailField, raw: unknown): void {
+  const value = typeof raw === "number" ? String(raw) : typeof raw === "string" ? raw.trim() : "";
+  if (value) athlete[field] = value;
+}
+
+// Delt rank er lov (lik totalplassering); samme utøver to ganger er det ikke
+function checkDuplicateAthletes(rows: ImportAthleteRow[], errors: ImportRowError[]): void {
+  const seen = new Map<string, ImportAthleteRow>();
+  for (const r of rows) {
+    const key = r.externalId ? `id:${r.externalId}` : `name:${r.name.toLocaleLowerCase("nb-NO")}`;
+    const first = seen.get(key);
+    if (first) {
+      errors.push({ row: r.row, athlete: r.name, message: `Utøveren er allerede med på rad ${first.row}` });
+    } else {
+      seen.set(key, r);
+    }
+  }
+}
+
+/**
+ * Finner personen bak en rad: på externalId, ellers den samme utøveren i leaderboardet som
+ * importeres på nytt, ellers én entydig utøver med samme navn (og land) fra andre sesonger.
+ * Ellers opprettes en ny. Navn, land og affiliate oppdateres fra raden.
+ */
+async function matchAthlete(
+  tx: Prisma.TransactionClient,
+  scope: { seasonId: string; competition: CompetitionType; division: string; scaling: ScalingLevel },
+  row: ImportAthleteRow,
+): Promise<{ person: Athlete; matched: boolean }> {
+  const details = {
+    name: row.name,
+    ...(row.country ? { country: row.country } : {}),
+    ...(row.affiliate ? { affiliate: row.affiliate } : {}),
+  };
+  const byName = { name: { equals: row.name, mode: "insensitive" as const } };
+
+  let existing = row.externalId
+    ? await tx.athlete.findUnique({ where: { externalId: row.externalId } })
+    : null;
+  existing ??= await tx.athlete.findFirst({
+    where: {
+      ...byName,
+      placements: { some: scope },
+      ...(row.externalId ? { externalId: null } : {}),
+    },
+  });
+  if (!existing) {
+    const candidates = await tx.athlete.findMany({
+      where: {
+        ...byName,
+        ...(row.externalId ? { externalId: null } : {}),
+        ...(row.country ? { OR: [{ country: row.country }, { country: null }] } : {}),
+      },
+      take: 2,
+    });
+    if (candidates.length === 1) existing = candidates[0];
+  }
+
+  if (!existing) {
+    const person = await tx.athlete.create({ data: { ...details, externalId: row.externalId ?? null } });
+    return { person, matched: false };
+  }
+  const person = await tx.athlete.update({
+    where: { id: existing.id },
+    data: { ...details, ...(row.externalId ? { externalId: row.externalId } : {}) },
+  });
+  return { person, matched: true };
+}
+
+// loadKg i en objekt-score er i importens loadUnit, som tall uten enhet i tekst-scorene
+function pickScoreFields(raw: Record<string, unknown>, loadUnit: LoadUnit): NormalizedScore {
+  const out: NormalizedScore = {};
+  for (const key of ["timeSeconds", "reps", "loadKg", "tiebreakSecs"] as const) {
+    const v = raw[key];
+    if (v == null) continue;
+    if (typeof v !== "number" || !Number.isFinite(v) || v < 0) throw new Error(`Ugyldig ${key}`);
+    // Lagres i Int-kolonner; bare loadKg kan ha desimaler
+    if (key !== "loadKg" && !Number.isInteger(v)) throw new Error(`${key} må være et heltall`);
+    out[key] = key === "loadKg" ? toKg(v, loadUnit) : v;
+  }
+  return out;
+}
+
+/** RFC 4180-ish: støtter anførselstegn, "" som escape, og ; som skilletegn (Excel med norsk locale). */
+export function parseCsv(text: string): string[][] {
+  const src = text.replace(/^\uFEFF/, "");
+  const firstLine = src.split(/\r?\n/, 1)[0] ?? "";
+  const delimiter = firstLine.includes(";") && !firstLine.includes(",") ? ";" : ",";
+
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < src.length; i++) {
+    const ch = src[i];
+    if (quoted) {
+      if (ch === '"' && src[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        field += ch;
+      }
+      continue;
+    }
+
+    if (ch === '"') {
+      quoted = true;
+    } else if (ch === delimiter) {
+      record.push(field);
+      field = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && src[i + 1] === "\n") i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = "";
+    } else {
+      field += ch;
+    }
+  }
+
+  if (field !== "" || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+  return records;
+}
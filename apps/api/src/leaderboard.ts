@@ -0,0 +1,177 @@
+import { Prisma, type Gender, type ValidationStatus } from "@prisma/client";
+import { z } from "zod";
+import { prisma } from "./db.ts";
+import type { CountingRules } from "./results.ts";
+
+// Posisjonen etter (next) eller før (prev) en rad; opak for klienten
+const CursorSchema = z.object({
+  k: z.array(z.number()).max(3),
+  u: z.string().min(1),
+  d: z.enum(["next", "prev"]),
+});
+
+export type LeaderboardCursor = z.infer<typeof CursorSchema>;
+
+export function encodeCursor(cursor: LeaderboardCursor): string {
+  return Buffer.from(JSON.stringify(cursor), "utf8").toString("base64url");
+}
+
+export function decodeCursor(raw: string): LeaderboardCursor {
+  try {
+    return CursorSchema.parse(JSON.parse(Buffer.from(raw, "base64url").toString("utf8")));
+  } catch {
+    throw new Error("Ugyldig cursor");
+  }
+}
+
+export type WorkoutLeaderboardFilter = {
+  userIds?: string[];
+  gender?: Gender;
+  country?: string;
+  validatedOnly?: boolean;
+};
+
+export type LeaderboardRow = {
+  resultId: string;
+  userId: string;
+  userName: string | null;
+  userEmail: string;
+  timeSeconds: number | null;
+  reps: number | null;
+  loadKg: number | null;
+  tiebreakSecs: number | null;
+  validationStatus: ValidationStatus;
+  createdAt: Date;
+  sortKey: number[];
+  rank: number;
+  tieSize: number;
+  rowNumber: number;
+  total: number;
+};
+
+export type LeaderboardPage = {
+  rows: LeaderboardRow[];
+  total: number;
+  nextCursor: string | null;
+  prevCursor: string | null;
+};
+
+/**
+ * Tellende forsøk per bruker (som pickCountingResult) rangert i databasen: RANK() over
+ * den lagrede sortKey gir konkurranse-rangering ("1, 2, 2, 4"). Filtrene avgjør feltet
+ * plasseringene regnes i.
+ */
+function rankedCte(workout: CountingRules & { id: string }, filter: WorkoutLeaderboardFilter): Prisma.Sql {
+  const conditions = [
+    Prisma.sql`r."workoutId" = ${workout.id}`,
+    Prisma.sql`r."validationStatus" <> 'REJECTED'`,
+    ...(filter.validatedOnly ? [Prisma.sql`r."validationStatus" = 'VALIDATED'`] : []),
+    ...(filter.userIds ? [Prisma.sql`r."userId" = ANY(${filter.userIds})`] : []),
+    ...(filter.gender ? [Prisma.sql`u."gender"::text = ${filter.gender}`] : []),
+    ...(filter.country ? [Prisma.sql`u."country" = ${filter.country}`] : []),
+  ];
+  // Lik score: det første forsøket teller (BEST); ellers det siste (LATEST)
+  const counting =
+    workout.resultPolicy === "LATEST"
+      ? Prisma.sql`"createdAt" DESC, "attempt" DESC`
+      : Prisma.sql`"sortKey", "attempt" ASC`;
+
+  return Prisma.sql`
+    WITH keyed AS (
+      SELECT r."id" AS "resultId", r."userId", r."attempt", r."createdAt", r."timeSeconds", r."reps",
+        r."loadKg", r."tiebreakSecs", r."validationStatus", r."sortKey",
+        u."name" AS "userName", u."email" AS "userEmail"
+      FROM "UserResult" r
+      JOIN "User" u ON u."id" = r."userId"
+      WHERE ${Prisma.join(conditions, " AND ")}
+    ),
+    counting AS (
+      SELECT DISTINCT ON ("userId") * FROM keyed ORDER BY "userId", ${counting}
+    ),
+    ranked AS (
+      SELECT counting.*,
+        RANK() OVER (ORDER BY "sortKey")::int AS rank,
+        COUNT(*) OVER (PARTITION BY "sortKey")::int AS "tieSize",
+        ROW_NUMBER() OVER (ORDER BY "sortKey", "userId")::int AS "rowNumber",
+        COUNT(*) OVER ()::int AS total
+      FROM counting
+    )`;
+}
+
+async function queryPage(
+  cte: Prisma.Sql,
+  cursor: LeaderboardCursor | null,
+  limit: number,
+  inclusive = false,
+): Promise<LeaderboardRow[]> {
+  if (!cursor) {
+    return prisma.$queryRaw<LeaderboardRow[]>`${cte}
+      SELECT * FROM ranked ORDER BY "sortKey", "userId" LIMIT ${limit}`;
+  }
+
+  const at = Prisma.sql`(${cursor.k}::double precision[], ${cursor.u})`;
+  if (cursor.d === "next") {
+    const op = Prisma.raw(inclusive ? ">=" : ">");
+    return prisma.$queryRaw<LeaderboardRow[]>`${cte}
+      SELECT * FROM ranked WHERE ("sortKey", "userId") ${op} ${at}
+      ORDER BY "sortKey", "userId" LIMIT ${limit}`;
+  }
+  const rows = await prisma.$queryRaw<LeaderboardRow[]>`${cte}
+    SELECT * FROM ranked WHERE ("sortKey", "userId") < ${at}
+    ORDER BY "sortKey" DESC, "userId" DESC LIMIT ${limit}`;
+  return rows.reverse();
+}
+
+/** Cursorene rundt en side: next etter siste rad og prev før første, når det finnes flere rader. */
+export function toPage(rows: LeaderboardRow[], total: number): LeaderboardPage {
+  const first = rows[0];
+  const last = rows[rows.length - 1];
+  const cursorAt = (r: LeaderboardRow, d: LeaderboardCursor["d"]) =>
+    encodeCursor({ k: r.sortKey, u: r.userId, d });
+  return {
+    rows,
+    total,
+    nextCursor: last && last.rowNumber < total ? cursorAt(last, "next") : null,
+    prevCursor: first && first.rowNumber > 1 ? cursorAt(first, "prev") : null,
+  };
+}
+
+/** Én side av leaderboardet for en workout, fra toppen eller fra en cursor. */
+export async function workoutLeaderboardPage(
+  workout: CountingRules & { id: string },
+  filter: WorkoutLeaderboardFilter,
+  limit: number,
+  cursor: LeaderboardCursor | null,
+): Promise<LeaderboardPage> {
+  const cte = rankedCte(workout, filter);
+  const rows = await queryPage(cte, cursor, limit);
+  const total = rows[0]?.total ?? (await countRanked(cte));
+  return toPage(rows, total);
+}
+
+/**
+ * Siden rundt én bruker ("hopp til min plassering"): brukeren midt på siden.
+ * null når brukeren ikke har et tellende resultat i feltet.
+ */
+export async function workoutLeaderboardAround(
+  workout: CountingRules & { id: string },
+  filter: WorkoutLeaderboardFilter,
+  limit: number,
+  userId: string,
+): Promise<LeaderboardPage | null> {
+  const cte = rankedCte(workout, filter);
+  const [me] = await prisma.$queryRaw<LeaderboardRow[]>`${cte}
+    SELECT * FROM ranked WHERE "userId" = ${userId}`;
+  if (!me) return null;
+
+  const key = { k: me.sortKey, u: me.userId };
+  const before = await queryPage(cte, { ...key, d: "prev" }, Math.floor(limit / 2));
+  const after = await queryPage(cte, { ...key, d: "next" }, limit - before.length, true);
+  return toPage([...before, ...after], me.total);
+}
+
+async function countRanked(cte: Prisma.Sql): Promise<number> {
+  const [row] = await prisma.$queryRaw<Array<{ total: number }>>`${cte}
+    SELECT COUNT(*)::int AS total FROM ranked`;
+  return row?.total ?? 0;
+}
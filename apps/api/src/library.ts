@@ -0,0 +1,49 @@
+import type { Prisma, Workout } from "@prisma/client";
+import { prisma } from "./db.ts";
+
+export const LIBRARY_COMPETITIONS = ["BENCHMARK", "CUSTOM", "HERO"] as const;
+
+export function isLibraryWorkout(workout: Pick<Workout, "seasonId">): boolean {
+  return workout.seasonId == null;
+}
+
+async function affiliateIdsFor(userId: string, roles?: Array<"OWNER" | "COACH" | "ATHLETE">): Promise<string[]> {
+  const memberships = await prisma.affiliateMembership.findMany({
+    where: { userId, ...(roles ? { role: { in: roles } } : {}) },
+    include: { affiliate: { select: { boxes: { select: { id: true } } } } },
+  });
+  // Medlemmer av en gruppe ser også boksenes workouts
+  return memberships.flatMap((m) => [m.affiliateId, ...m.affiliate.boxes.map((b) => b.id)]);
+}
+
+/** Workouts brukeren kan se: offentlige (uten eier), egne og affiliatenes. */
+export async function visibleWorkoutsWhere(userId: string | null): Promise<Prisma.WorkoutWhereInput> {
+  const publicOnly: Prisma.WorkoutWhereInput = { ownerUserId: null, ownerAffiliateId: null };
+  if (!userId) return publicOnly;
+
+  return {
+    OR: [publicOnly, { ownerUserId: userId }, { ownerAffiliateId: { in: await affiliateIdsFor(userId) } }],
+  };
+}
+
+export async function canViewWorkout(
+  userId: string | null,
+  workout: Pick<Workout, "ownerUserId" | "ownerAffiliateId">,
+): Promise<boolean> {
+  if (!workout.ownerUserId && !workout.ownerAffiliateId) return true;
+  if (!userId) return false;
+  if (workout.ownerUserId) return workout.ownerUserId === userId;
+  return (await affiliateIdsFor(userId)).includes(workout.ownerAffiliateId!);
+}
+
+/** Eieren, eller eier/coach i affiliaten som eier workouten. Offentlige workouts endres bare av admin. */
+export async function canEditWorkout(
+  userId: string,
+  workout: Pick<Workout, "ownerUserId" | "ownerAffiliateId">,
+): Promise<boolean> {
+  if (workout.ownerUserId) return workout.ownerUserId === userId;
+  if (workout.ownerAffiliateId) {
+    return (await affiliateIdsFor(userId, ["OWNER", "COACH"])).includes(workout.ownerAffiliateId);
+  }
+  return false;
+}
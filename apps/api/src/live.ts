@@ -0,0 +1,216 @@
+import { EventEmitter } from "node:events";
+import type { CompetitionType, ScalingLevel, UserResult, Workout } from "@prisma/client";
+import type { FastifyBaseLogger, FastifyReply } from "fastify";
+
+/**
+ * Et resultat er logget, godkjent eller avvist. Uten resultId/userId er det workouten som er
+ * endret slik at resultatene teller annerledes (f.eks. resultPolicy).
+ */
+export type ResultEvent = {
+  resultId: string | null;
+  userId: string | null;
+  workoutId: string;
+  workoutName: string;
+  seasonId: string | null;
+  competition: CompetitionType;
+  scaling: ScalingLevel;
+};
+
+// Pub/sub i prosessen, så live-leaderboards virker uten Redis o.l. Klientene må da være
+// koblet til samme API-instans som tar imot resultatet.
+const bus = new EventEmitter();
+bus.setMaxListeners(0);
+
+type EventWorkout = Pick<Workout, "id" | "name" | "seasonId" | "competition" | "scaling">;
+
+export function publishResult(result: Pick<UserResult, "id" | "userId">, workout: EventWorkout): void {
+  publish(result, workout);
+}
+
+export function publishWorkoutChange(workout: EventWorkout): void {
+  publish(null, workout);
+}
+
+function publish(result: Pick<UserResult, "id" | "userId"> | null, workout: EventWorkout): void {
+  const event: ResultEvent = {
+    resultId: result?.id ?? null,
+    userId: result?.userId ?? null,
+    workoutId: workout.id,
+    workoutName: workout.name,
+    seasonId: workout.seasonId,
+    competition: workout.competition,
+    scaling: workout.scaling,
+  };
+  bus.emit("result", event);
+}
+
+function onResult(listener: (event: ResultEvent) => void): () => void {
+  bus.on("result", listener);
+  return () => bus.off("result", listener);
+}
+
+// --- Feeds: ett leaderboard (workout/sesong + filtre) som regnes ut på nytt når et resultat treffer det ---
+
+export type RankChange = { userId: string; rank: number | null; previousRank: number | null };
+
+export type LiveSnapshot<T> = { body: T; ranks: Map<string, number> };
+
+export type FeedSource<T> = {
+  // Klienter med samme key deler feed, så tabellen regnes ut én gang per oppdatering
+  key: string;
+  matches: (event: ResultEvent) => boolean;
+  load: () => Promise<LiveSnapshot<T>>;
+};
+
+type FeedUpdate<T> = T & { changes: RankChange[] };
+
+type Feed<T> = {
+  snapshot: LiveSnapshot<T> | null;
+  // Utregningene kjøres etter hverandre, så en treg utregning ikke overskriver en nyere
+  queue: Promise<void>;
+  timer: NodeJS.Timeout | null;
+  subscribers: Set<(update: FeedUpdate<T>) => void>;
+  stop: () => void;
+};
+
+// Resultater som kommer tett (f.eks. en hel heat) samles til én oppdatering
+const REFRESH_DELAY_MS = 500;
+
+const feeds = new Map<string, Feed<unknown>>();
+
+/** Plasseringene som er endret; rank null betyr at brukeren har falt ut av tabellen. */
+export function rankChanges(before: Map<string, number>, after: Map<string, number>): RankChange[] {
+  const changes: RankChange[] = [];
+  for (const [userId, rank] of after) {
+    const previousRank = before.get(userId) ?? null;
+    if (previousRank !== rank) changes.push({ userId, rank, previousRank });
+  }
+  for (const [userId, previousRank] of before) {
+    if (!after.has(userId)) changes.push({ userId, rank: null, previousRank });
+  }
+  return changes;
+}
+
+function createFeed<T>(source: FeedSource<T>, log: FastifyBaseLogger): Feed<T> {
+  const feed: Feed<T> = {
+    snapshot: null,
+    queue: Promise.resolve(),
+    timer: null,
+    subscribers: new Set(),
+    stop: () => {},
+  };
+
+  const refresh = async () => {
+    try {
+      const next = await source.load();
+      const changes = feed.snapshot ? rankChanges(feed.snapshot.ranks, next.ranks) : [];
+      feed.snapshot = next;
+      for (const send of feed.subscribers) send({ ...next.body, changes });
+    } catch (e) {
+      // Klientene beholder forrige tabell; neste resultat prøver igjen
+      log.error({ err: e, key: source.key }, "live-leaderboard kunne ikke oppdateres");
+    }
+  };
+
+  const unsubscribe = onResult((event) => {
+    if (feed.timer || !source.matches(event)) return;
+    feed.timer = setTimeout(() => {
+      feed.timer = null;
+      feed.queue = feed.queue.then(refresh);
+    }, REFRESH_DELAY_MS);
+  });
+  feed.stop = () => {
+    unsubscribe();
+    if (feed.timer) clearTimeout(feed.timer);
+    if (feeds.get(source.key) === feed) feeds.delete(source.key);
+  };
+  return feed;
+}
+
+/**
+ * Kobler en klient til feeden for source (oppretter den ved behov). Gir gjeldende tabell;
+ * senere oppdateringer går til send. Feeden stoppes når siste klient melder seg av.
+ */
+export async function subscribeFeed<T>(
+  source: FeedSource<T>,
+  send: (update: FeedUpdate<T>) => void,
+  log: FastifyBaseLogger,
+): Promise<{ body: T; unsubscribe: () => void }> {
+  let feed = feeds.get(source.key) as Feed<T> | undefined;
+  if (!feed) {
+    const created = createFeed(source, log);
+    feeds.set(source.key, created as Feed<unknown>);
+    created.queue = source.load().then(
+      (snapshot) => {
+        created.snapshot = snapshot;
+      },
+      (e) => {
+        created.stop();
+        throw e;
+      },
+    );
+    feed = created;
+  }
+
+  await feed.queue;
+  // Siste klient kan ha meldt seg av mens vi ventet; da startes en ny feed
+  if (feeds.get(source.key) !== feed) return subscribeFeed(source, send, log);
+
+  const current = feed;
+  current.subscribers.add(send);
+  return {
+    body: current.snapshot!.body,
+    unsubscribe: () => {
+      current.subscribers.delete(send);
+      if (current.subscribers.size === 0) current.stop();
+    },
+  };
+}
+
+// --- Server-Sent Events ---
+
+// Kommentarlinje med jevne mellomrom, så proxyer ikke lukker en stille forbindelse
+const HEARTBEAT_MS = 25_000;
+
+/**
+ * Strømmer feeden som text/event-stream: "leaderboard" med hele tabellen ved tilkobling og
+ * etter hver oppdatering (changes lister endrede plasseringer). Headere fra hooks (CORS) blir med.
+ * Feeden lever lenger enn requesten, så feil logges med log (app.log) og ikke request-loggeren.
+ */
+export async function streamFeed<T>(
+  reply: FastifyReply,
+  log: FastifyBaseLogger,
+  source: FeedSource<T>,
+): Promise<void> {
+  let open = false;
+  const write = (event: string, data: unknown) => {
+    if (open) reply.raw.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  };
+
+  const { body, unsubscribe } = await subscribeFeed(source, (update) => write("leaderboard", update), log);
+
+  reply.hijack();
+  for (const [name, value] of Object.entries(reply.getHeaders())) {
+    if (value !== undefined) reply.raw.setHeader(name, value);
+  }
+  reply.raw.writeHead(200, {
+    "content-type": "text/event-stream; charset=utf-8",
+    "cache-control": "no-cache",
+    connection: "keep-alive",
+    // nginx bufrer ellers svaret
+    "x-accel-buffering": "no",
+  });
+  if (reply.raw.destroyed) {
+    unsubscribe();
+    return;
+  }
+  open = true;
+  write("leaderboard", { ...body, changes: [] });
+
+  const heartbeat = setInterval(() => reply.raw.write(": ping\n\n"), HEARTBEAT_MS);
+  reply.raw.on("close", () => {
+    open = false;
+    clearInterval(heartbeat);
+    unsubscribe();
+  });
+}
@@ -0,0 +1,42 @@
+import { mkdir, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import { env } from "./env.ts";
+
+export type MailMessage = {
+  to: string;
+  subject: string;
+  text: string;
+};
+
+// Transport for utgående e-post. Lokalt skrives meldingene til konsollen eller til filer;
+// en ekte SMTP/API-transport kan legges til her uten å endre auth-koden.
+export interface Mailer {
+  send(message: MailMessage): Promise<void>;
+}
+
+class ConsoleMailer implements Mailer {
+  async send(message: MailMessage): Promise<void> {
+    console.log(`[mail] til ${message.to}: ${message.subject}\n${message.text}`);
+  }
+}
+
+class FileMailer implements Mailer {
+  constructor(private readonly dir: string) {}
+
+  async send(message: MailMessage): Promise<void> {
+    await mkdir(this.dir, { recursive: true });
+    const file = join(this.dir, `${new Date().toISOString().replace(/[:.]/g, "-")}-${message.to}.txt`);
+    await writeFile(file, `To: ${message.to}\nFrom: ${env.MAIL_FROM}\nSubject: ${message.subject}\n\n${message.text}\n`);
+  }
+}
+
+function createMailer(): Mailer {
+  switch (env.MAIL_TRANSPORT) {
+    case "file":
+      return new FileMailer(env.MAIL_DIR);
+    case "console":
+      return new ConsoleMailer();
+  }
+}
+
+export const mailer: Mailer = createMailer();
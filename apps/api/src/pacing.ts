@@ -0,0 +1,80 @@
+import { parseClockToSeconds } from "./scoreText.ts";
+import { isCapped, type NormalizedScore, type ScoringRules } from "./scoring.ts";
+import { readStructure, segmentCount, segmentLabel } from "./workoutStructure.ts";
+
+/** Splits som sendes inn: sekunder eller klokketid ("4:05"), kumulativt fra start. */
+export function parseSplits(raw: Array<number | string>): number[] {
+  return raw.map((v) => {
+    const seconds = typeof v === "number" ? v : parseClockToSeconds(v);
+    if (seconds == null || !Number.isInteger(seconds) || seconds <= 0) throw new Error(`Ugyldig split: "${v}"`);
+    return seconds;
+  });
+}
+
+/** Splits må øke, holde seg innenfor sluttiden og time cap, og ikke være flere enn segmentene. */
+export function assertSplitsMatchScore(rules: ScoringRules, score: NormalizedScore, splits: number[]): void {
+  if (splits.length === 0) return;
+  if (rules.scoreType === "LOAD") throw new Error("LOAD har ingen splits");
+
+  splits.forEach((t, idx) => {
+    if (idx > 0 && t <= splits[idx - 1]) throw new Error(`Split ${idx + 1} (${t}s) må være etter split ${idx}`);
+  });
+
+  const last = splits[splits.length - 1];
+  const finish = isCapped(rules.scoreType, score) ? null : score.timeSeconds;
+  if (finish != null && last > finish) throw new Error(`Siste split (${last}s) er etter sluttiden (${finish}s)`);
+  if (rules.timeCapSeconds != null && last > rules.timeCapSeconds) {
+    throw new Error(`Siste split (${last}s) er etter time cap (${rules.timeCapSeconds}s)`);
+  }
+
+  const structure = readStructure(rules.structure);
+  const segments = structure ? segmentCount(structure) : null;
+  if (segments != null && splits.length > segments) throw new Error(`Workouten har bare ${segments} segmenter`);
+}
+
+export function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+export type PacingSegment = {
+  index: number;
+  label: string;
+  userSplit: number;
+  userSegment: number;
+  medianSplit: number | null;
+  medianSegment: number | null;
+  // Antall Top 40-utøvere med split på segmentet
+  athletes: number;
+  // Positivt: sekunder brukeren tapte på segmentet mot median-utøveren
+  deltaSeconds: number | null;
+};
+
+/**
+ * Brukerens tid per segment mot median Top 40 per segment. Segmenttid er differansen mellom
+ * to splits; medianen tas per segment over utøverne som har split der.
+ */
+export function comparePacing(rules: ScoringRules, userSplits: number[], benchmarkSplits: number[][]): PacingSegment[] {
+  const structure = readStructure(rules.structure);
+
+  return userSplits.map((split, index) => {
+    const previous = index > 0 ? userSplits[index - 1] : 0;
+    const withSplit = benchmarkSplits.filter((s) => s.length > index);
+    const medianSplit = median(withSplit.map((s) => s[index]));
+    const medianSegment = median(withSplit.map((s) => s[index] - (index > 0 ? s[index - 1] : 0)));
+    const userSegment = split - previous;
+
+    return {
+      index,
+      label: structure ? segmentLabel(structure, index) : `Segment ${index + 1}`,
+      userSplit: split,
+      userSegment,
+      medianSplit,
+      medianSegment,
+      athletes: withSplit.length,
+      deltaSeconds: medianSegment == null ? null : userSegment - medianSegment,
+    };
+  });
+}
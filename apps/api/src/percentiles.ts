@@ -0,0 +1,137 @@
+import type { Prisma } from "@prisma/client";
+import {
+  assertScoreMatchesType,
+  compareScores,
+  isCapped,
+  type NormalizedScore,
+  type Placement,
+  type ScoringRules,
+} from "./scoring.ts";
+import { parseScoreText } from "./scoreText.ts";
+import type { DistributionInput } from "./validators.ts";
+
+// Et knekkpunkt i fordelingen for hele feltet: scoren til den som er akkurat topp X %.
+export type Breakpoint = NormalizedScore & { topPercent: number };
+
+export type FieldEstimate = {
+  topPercent: number;
+  percentile: number;
+  projectedPlacement: number | null;
+  fieldSize: number | null;
+  // BENCHMARK: innenfor Top 40; INTERPOLATED: mellom to knekkpunkter;
+  // ABOVE/BELOW_BREAKPOINTS: bedre/dårligere enn ytterste knekkpunkt (verdien er en grense)
+  basis: "BENCHMARK" | "INTERPOLATED" | "ABOVE_BREAKPOINTS" | "BELOW_BREAKPOINTS";
+};
+
+/**
+ * Anslår hvor i hele feltet (worldwide) en score havner, ut fra knekkpunktene
+ * (p1, p5, p10 ...) og plasseringen blant Top 40.
+ */
+export function estimateFieldPlacement(
+  rules: ScoringRules,
+  userScore: NormalizedScore,
+  breakpoints: Breakpoint[],
+  fieldSize: number | null,
+  benchmark: { placement: Placement; total: number },
+): FieldEstimate | null {
+  // Slår eller tangerer brukeren noen i Top 40 er plasseringen kjent direkte
+  if (fieldSize && benchmark.total > 0 && benchmark.placement.rank <= benchmark.total) {
+    return toEstimate((benchmark.placement.rank / fieldSize) * 100, fieldSize, "BENCHMARK");
+  }
+  if (breakpoints.length === 0) return null;
+
+  const sorted = [...breakpoints].sort((a, b) => a.topPercent - b.topPercent);
+  const u = scoreValue(rules, userScore);
+  const values = sorted.map((bp) => scoreValue(rules, bp));
+
+  if (u >= values[0]) return toEstimate(sorted[0].topPercent, fieldSize, "ABOVE_BREAKPOINTS");
+
+  // Her er values[i] > u, så første knekkpunkt med values[i + 1] <= u gir intervallet
+  for (let i = 0; i < sorted.length - 1; i++) {
+    const hi = values[i];
+    const lo = values[i + 1];
+    if (u >= lo) {
+      const t = (hi - u) / (hi - lo);
+      const top = sorted[i].topPercent + t * (sorted[i + 1].topPercent - sorted[i].topPercent);
+      return toEstimate(top, fieldSize, "INTERPOLATED");
+    }
+  }
+
+  return toEstimate(sorted[sorted.length - 1].topPercent, fieldSize, "BELOW_BREAKPOINTS");
+}
+
+/**
+ * Tall der høyere er bedre, slik at to scorer kan interpoleres. Capped TIME regnes
+ * som cap + 1 sekund per rep igjen (som på CrossFit-leaderboardet).
+ */
+export function scoreValue(rules: ScoringRules, s: NormalizedScore): number {
+  switch (rules.scoreType) {
+    case "TIME":
+      if (isCapped(rules.scoreType, s)) {
+        const remaining = (rules.totalReps ?? MAX_REPS) - s.reps!;
+        return -((rules.timeCapSeconds ?? 0) + 1 + remaining);
+      }
+      return -(s.timeSeconds ?? 0);
+    case "REPS":
+    case "TIME_REPS":
+      return s.reps ?? 0;
+    case "LOAD":
+      return s.loadKg ?? 0;
+  }
+}
+
+const MAX_REPS = 100_000;
+
+function toEstimate(topPercent: number, fieldSize: number | null, basis: FieldEstimate["basis"]): FieldEstimate {
+  const top = Math.min(100, Math.max(0, Math.round(topPercent * 1000) / 1000));
+  return {
+    topPercent: top,
+    percentile: Math.round((100 - top) * 1000) / 1000,
+    projectedPlacement: fieldSize ? Math.max(1, Math.min(fieldSize, Math.round((top / 100) * fieldSize))) : null,
+    fieldSize,
+    basis,
+  };
+}
+
+/**
+ * Gjør om input (score som tekst eller felter) til knekkpunkter og sjekker at en
+ * lavere topPercent aldri har en dårligere score.
+ */
+export function parseDistribution(rules: ScoringRules, input: DistributionInput): Breakpoint[] {
+  const points: Breakpoint[] = input.percentiles.map((p) => {
+    const score = typeof p.score === "string" ? parseScoreText(rules, p.score) : p.score;
+    assertScoreMatchesType(rules, score);
+    return { topPercent: p.topPercent, ...score };
+  });
+
+  points.sort((a, b) => a.topPercent - b.topPercent);
+  for (let i = 1; i < points.length; i++) {
+    if (points[i].topPercent === points[i - 1].topPercent) {
+      throw new Error(`p${points[i].topPercent} er oppgitt mer enn én gang`);
+    }
+    if (compareScores(rules, points[i - 1], points[i]) > 0) {
+      throw new Error(`p${points[i - 1].topPercent} har dårligere score enn p${points[i].topPercent}`);
+    }
+  }
+  return points;
+}
+
+export async function replaceDistribution(
+  tx: Prisma.TransactionClient,
+  workoutId: string,
+  fieldSize: number,
+  points: Breakpoint[],
+): Promise<void> {
+  await tx.workout.update({ where: { id: workoutId }, data: { fieldSize } });
+  await tx.scorePercentile.deleteMany({ where: { workoutId } });
+  await tx.scorePercentile.createMany({
+    data: points.map((p) => ({
+      workoutId,
+      topPercent: p.topPercent,
+      timeSeconds: p.timeSeconds ?? null,
+      reps: p.reps ?? null,
+      loadKg: p.loadKg ?? null,
+      tiebreakSecs: p.tiebreakSecs ?? null,
+    })),
+  });
+}
@@ -0,0 +1,59 @@
+import type { PointsScheme as PointsSchemeId, TiePointsRule } from "@prisma/client";
+import { pointsFromRank, type Placement } from "./scoring.ts";
+
+export type PointsScheme = {
+  id: PointsSchemeId;
+  // Open: poeng = plassering, lavest sum vinner
+  lowerIsBetter: boolean;
+  pointsForRank(rank: number): number;
+  // Poeng for en workout som ikke er logget; fieldSize = antall i feltet (benchmark + brukeren)
+  pointsForMissing(fieldSize: number): number;
+};
+
+// Games-tabellen for et felt på 40: 5 poeng mellom de fem første, deretter 2 per plass
+const GAMES_POINTS = [
+  100, 95, 90, 85, 80, 75, 73, 71, 69, 67, 65, 63, 61, 59, 57, 55, 53, 51, 49, 47,
+  45, 43, 41, 39, 37, 35, 33, 31, 29, 27, 25, 23, 21, 19, 17, 15, 13, 11, 9, 7,
+];
+
+const SCHEMES: Record<PointsSchemeId, PointsScheme> = {
+  LINEAR_41: {
+    id: "LINEAR_41",
+    lowerIsBetter: false,
+    pointsForRank: pointsFromRank,
+    pointsForMissing: () => 0,
+  },
+  OPEN_PLACEMENT: {
+    id: "OPEN_PLACEMENT",
+    lowerIsBetter: true,
+    pointsForRank: (rank) => rank,
+    pointsForMissing: (fieldSize) => fieldSize,
+  },
+  GAMES_TABLE: {
+    id: "GAMES_TABLE",
+    lowerIsBetter: false,
+    pointsForRank: (rank) => GAMES_POINTS[rank - 1] ?? 0,
+    pointsForMissing: () => 0,
+  },
+};
+
+export function getPointsScheme(id: PointsSchemeId): PointsScheme {
+  return SCHEMES[id];
+}
+
+/**
+ * Poeng for en plassering som kan være delt. SHARED_HIGHEST gir alle poengene for
+ * den delte plassen; AVERAGE gir snittet av plassene de deler.
+ */
+export function pointsForPlacement(scheme: PointsScheme, placement: Placement, rule: TiePointsRule): number {
+  if (rule === "SHARED_HIGHEST" || placement.tiedWith === 0) return scheme.pointsForRank(placement.rank);
+
+  let sum = 0;
+  for (let r = placement.rank; r <= placement.rank + placement.tiedWith; r++) sum += scheme.pointsForRank(r);
+  return sum / (placement.tiedWith + 1);
+}
+
+/** Negativ hvis totalsum a er bedre enn b under ordningen. */
+export function compareTotals(scheme: PointsScheme, a: number, b: number): number {
+  return scheme.lowerIsBetter ? a - b : b - a;
+}
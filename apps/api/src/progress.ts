@@ -0,0 +1,182 @@
+import type { CompetitionType, LoadUnit, ScalingLevel, Workout } from "@prisma/client";
+import { prisma } from "./db.ts";
+import { DIVISION_PROFILE_SELECT, listDivisions, resolveDivision } from "./divisions.ts";
+import { scoreMargin, type Margin } from "./h2h.ts";
+import { estimateFieldPlacement, type FieldEstimate } from "./percentiles.ts";
+import type { PointsScheme } from "./points.ts";
+import { countingResults, resultScore } from "./results.ts";
+import { compareScores, type NormalizedScore } from "./scoring.ts";
+import { computeSeasonTotals, loadSeasonContext, loadSeasonResults } from "./season.ts";
+
+export type ProgressWorkout = {
+  workoutId: string;
+  name: string;
+  score: NormalizedScore;
+  display: string;
+  points: number;
+  beatenCount: number;
+  benchmarkTotal: number;
+  rank: number;
+  fieldEstimate: FieldEstimate | null;
+};
+
+export type SeasonProgress = {
+  season: number;
+  competition: CompetitionType;
+  division: string;
+  scaling: ScalingLevel;
+  pointsScheme: PointsScheme["id"];
+  totalPoints: number;
+  completedWorkouts: number;
+  missingWorkouts: number;
+  beatenCount: number;
+  // Snitt over fullførte workouts; averagePercentile bare over dem med anslag for hele feltet
+  averageRank: number | null;
+  averagePercentile: number | null;
+  workouts: ProgressWorkout[];
+};
+
+export type RepeatComparison = {
+  workout: { id: string; name: string; season: number | null };
+  repeatOf: { id: string; name: string; season: number | null };
+  now: ProgressWorkout;
+  // null når brukeren ikke har resultat på originalen
+  then: ProgressWorkout | null;
+  improved: boolean | null;
+  margin: Margin | null;
+  beatenDelta: number | null;
+  // Positivt: bedre plassering enn sist
+  rankDelta: number | null;
+  percentileDelta: number | null;
+};
+
+export type UserProgress = { seasons: SeasonProgress[]; repeats: RepeatComparison[] };
+
+function average(values: number[]): number | null {
+  return values.length ? Math.round((values.reduce((sum, v) => sum + v, 0) / values.length) * 10) / 10 : null;
+}
+
+// Én workout-variant: Rx og Scaled (og divisjonene) er ulike workouts selv med samme navn
+function workoutKey(w: Pick<Workout, "seasonId" | "competition" | "division" | "scaling" | "name">): string {
+  return `${w.seasonId}:${w.competition}:${w.division}:${w.scaling}:${w.name}`;
+}
+
+/**
+ * Brukerens sesonger (én per sesong, konkurranse og skalering brukeren har resultater i), eldste først,
+ * og sammenligning for workouts som er gjentakelser av en tidligere workout (repeatOf).
+ * Divisjonen er profilens for sesongåret, ellers divisjonen resultatene er logget i.
+ */
+export async function computeUserProgress(userId: string, loadUnit: LoadUnit): Promise<UserProgress | null> {
+  const profile = await prisma.user.findUnique({ where: { id: userId }, select: DIVISION_PROFILE_SELECT });
+  if (!profile) return null;
+
+  const logged = await prisma.userResult.findMany({
+    where: { userId, workout: { seasonId: { not: null } } },
+    select: { workout: { select: { competition: true, division: true, scaling: true, season: true } } },
+    orderBy: { createdAt: "desc" },
+  });
+  const groups = new Map<string, (typeof logged)[number]["workout"]>();
+  for (const { workout } of logged) {
+    const key = `${workout.season!.year}:${workout.competition}:${workout.scaling}`;
+    if (!groups.has(key)) groups.set(key, workout);
+  }
+
+  const divisions = await listDivisions();
+  const seasons: SeasonProgress[] = [];
+  const byWorkout = new Map<string, ProgressWorkout>();
+  const repeatsOf: Array<{ workout: Workout; season: number; now: ProgressWorkout }> = [];
+
+  const ordered = [...groups.values()].sort((a, b) => a.season!.year - b.season!.year);
+  for (const g of ordered) {
+    const year = g.season!.year;
+    const division = resolveDivision(profile, year, divisions) ?? g.division;
+    const ctx = await loadSeasonContext(year, g.competition, division, g.scaling);
+    if (!ctx) continue;
+
+    const userResults = await loadSeasonResults(ctx, { userId });
+    const totals = computeSeasonTotals(ctx, userResults, loadUnit);
+    const counting = countingResults(ctx.workouts, userResults);
+    const breakpoints = await prisma.scorePercentile.findMany({
+      where: { workoutId: { in: ctx.workouts.map((w) => w.id) } },
+      select: { workoutId: true, topPercent: true, timeSeconds: true, reps: true, loadKg: true, tiebreakSecs: true },
+    });
+
+    const workouts = totals.perWorkout.map((p): ProgressWorkout => {
+      const w = ctx.workouts.find((x) => x.id === p.workoutId)!;
+      const score = resultScore(counting.find((r) => r.workoutId === w.id)!);
+      const benchmarkTotal = ctx.benchmarks.get(w.id)?.length ?? 0;
+      const entry = {
+        workoutId: w.id,
+        name: w.name,
+        score,
+        display: p.display,
+        points: p.points,
+        beatenCount: p.beatenCount,
+        benchmarkTotal,
+        rank: p.rank,
+        fieldEstimate: estimateFieldPlacement(
+          w,
+          score,
+          breakpoints.filter((bp) => bp.workoutId === w.id),
+          w.fieldSize,
+          { placement: { rank: p.rank, tiedWith: p.tiedWith }, total: benchmarkTotal },
+        ),
+      };
+      if (!byWorkout.has(workoutKey(w))) byWorkout.set(workoutKey(w), entry);
+      if (w.repeatOfId) repeatsOf.push({ workout: w, season: year, now: entry });
+      return entry;
+    });
+
+    seasons.push({
+      season: year,
+      competition: ctx.competition,
+      division: ctx.division,
+      scaling: ctx.scaling,
+      pointsScheme: ctx.scheme.id,
+      totalPoints: totals.totalPoints,
+      completedWorkouts: totals.completedWorkouts,
+      missingWorkouts: totals.missingWorkouts,
+      beatenCount: workouts.reduce((sum, w) => sum + w.beatenCount, 0),
+      averageRank: average(workouts.map((w) => w.rank)),
+      averagePercentile: average(workouts.flatMap((w) => (w.fieldEstimate ? [w.fieldEstimate.percentile] : []))),
+      workouts,
+    });
+  }
+
+  const originals = await prisma.workout.findMany({
+    where: { id: { in: repeatsOf.map((r) => r.workout.repeatOfId!) } },
+    include: { season: true },
+  });
+
+  const repeats = repeatsOf.map(({ workout, season, now }): RepeatComparison => {
+    const original = originals.find((o) => o.id === workout.repeatOfId)!;
+    const then = byWorkout.get(workoutKey(original)) ?? null;
+    const base = {
+      workout: { id: workout.id, name: workout.name, season },
+      repeatOf: { id: original.id, name: original.name, season: original.season?.year ?? null },
+      now,
+      then,
+    };
+    if (!then) {
+      return { ...base, improved: null, margin: null, beatenDelta: null, rankDelta: null, percentileDelta: null };
+    }
+
+    // Reglene fra årets versjon; en gjentakelse har samme scoreType
+    const cmp = compareScores(workout, now.score, then.score);
+    return {
+      ...base,
+      improved: cmp < 0,
+      margin: cmp <= 0
+        ? scoreMargin(workout, now.score, then.score, loadUnit)
+        : scoreMargin(workout, then.score, now.score, loadUnit),
+      beatenDelta: now.beatenCount - then.beatenCount,
+      rankDelta: then.rank - now.rank,
+      percentileDelta:
+        now.fieldEstimate && then.fieldEstimate
+          ? Math.round((now.fieldEstimate.percentile - then.fieldEstimate.percentile) * 1000) / 1000
+          : null,
+    };
+  });
+
+  return { seasons, repeats };
+}
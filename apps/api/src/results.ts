@@ -0,0 +1,164 @@
+import { Prisma, type ResultPolicy, type UserResult } from "@prisma/client";
+import { prisma } from "./db.ts";
+import { compareScores, scoreSortKey, type NormalizedScore, type ScoringRules } from "./scoring.ts";
+import type { ProgressInput } from "./validators.ts";
+
+export type CountingRules = ScoringRules & { resultPolicy: ResultPolicy };
+
+export function resultScore(r: Pick<UserResult, "timeSeconds" | "reps" | "loadKg" | "tiebreakSecs">): NormalizedScore {
+  return { timeSeconds: r.timeSeconds, reps: r.reps, loadKg: r.loadKg, tiebreakSecs: r.tiebreakSecs };
+}
+
+/**
+ * Forsøket som teller for én bruker på én workout: beste score, eller siste forsøk ved LATEST.
+ * Forsøk en coach har avvist teller ikke.
+ */
+export function pickCountingResult<T extends UserResult>(rules: CountingRules, attempts: T[]): T | null {
+  let counting: T | null = null;
+  for (const r of attempts) {
+    if (r.validationStatus === "REJECTED") continue;
+    if (!counting) counting = r;
+    else if (rules.resultPolicy === "LATEST") {
+      // createdAt, siden forsøk fra ulike divisjonsvarianter kan telle på samme workout
+      if (r.createdAt > counting.createdAt || (+r.createdAt === +counting.createdAt && r.attempt > counting.attempt)) {
+        counting = r;
+      }
+    } else {
+      // Lik score: det første forsøket beholdes
+      const cmp = compareScores(rules, resultScore(r), resultScore(counting));
+      if (cmp < 0 || (cmp === 0 && r.attempt < counting.attempt)) counting = r;
+    }
+  }
+  return counting;
+}
+
+/** Ett tellende forsøk per bruker og workout blant radene. */
+export function countingResults<T extends UserResult>(
+  workouts: Array<CountingRules & { id: string }>,
+  rows: T[],
+): T[] {
+  const rulesById = new Map(workouts.map((w) => [w.id, w]));
+  const groups = new Map<string, T[]>();
+  for (const r of rows) {
+    const key = `${r.userId}:${r.workoutId}`;
+    const list = groups.get(key);
+    if (list) list.push(r);
+    else groups.set(key, [r]);
+  }
+
+  const out: T[] = [];
+  for (const attempts of groups.values()) {
+    const rules = rulesById.get(attempts[0].workoutId);
+    if (!rules) continue;
+    const counting = pickCountingResult(rules, attempts);
+    if (counting) out.push(counting);
+  }
+  return out;
+}
+
+export type AttemptDetails = {
+  note?: string;
+  judgeName?: string;
+  videoUrl?: string;
+  requestValidation?: boolean;
+  progress?: ProgressInput;
+  splits?: number[];
+};
+
+// To forsøk logget samtidig kan få samme attempt-nummer; den som taper på unik-indeksen prøver igjen
+const ATTEMPT_RETRIES = 3;
+
+function isUniqueViolation(e: unknown): boolean {
+  return e instanceof Prisma.PrismaClientKnownRequestError && e.code === "P2002";
+}
+
+/**
+ * Lagrer et nytt forsøk med neste attempt-nummer; tidligere forsøk blir liggende.
+ * Med dommer, video eller requestValidation havner forsøket i køen til coachene (PENDING).
+ */
+export async function logAttempt(
+  userId: string,
+  workout: ScoringRules & { id: string },
+  score: NormalizedScore,
+  details: AttemptDetails = {},
+): Promise<UserResult> {
+  for (let retry = 0; ; retry++) {
+    try {
+      return await createAttempt(userId, workout, score, details);
+    } catch (e) {
+      if (retry >= ATTEMPT_RETRIES || !isUniqueViolation(e)) throw e;
+    }
+  }
+}
+
+async function createAttempt(
+  userId: string,
+  workout: ScoringRules & { id: string },
+  score: NormalizedScore,
+  details: AttemptDetails,
+): Promise<UserResult> {
+  const workoutId = workout.id;
+  return prisma.$transaction(async (tx) => {
+    const last = await tx.userResult.findFirst({
+      where: { userId, workoutId },
+      orderBy: { attempt: "desc" },
+      select: { attempt: true },
+    });
+
+    return tx.userResult.create({
+      data: {
+        userId,
+        workoutId,
+        attempt: (last?.attempt ?? 0) + 1,
+        note: details.note ?? null,
+        judgeName: details.judgeName ?? null,
+        videoUrl: details.videoUrl ?? null,
+        validationStatus: details.judgeName || details.videoUrl || details.requestValidation ? "PENDING" : "SELF_REPORTED",
+        timeSeconds: score.timeSeconds ?? null,
+        reps: score.reps ?? null,
+        loadKg: score.loadKg ?? null,
+        tiebreakSecs: score.tiebreakSecs ?? null,
+        sortKey: scoreSortKey(workout, score),
+        splits: details.splits ?? [],
+        ...(details.progress ? { progress: details.progress } : {}),
+      },
+    });
+  });
+}
+
+type StoredScore = Pick<UserResult, "id" | "timeSeconds" | "reps" | "loadKg" | "tiebreakSecs">;
+
+// Radene gruppert på ny sortKey, så hver nøkkel blir én updateMany
+function groupBySortKey(rules: ScoringRules, rows: StoredScore[]): Array<{ sortKey: number[]; ids: string[] }> {
+  const groups = new Map<string, { sortKey: number[]; ids: string[] }>();
+  for (const r of rows) {
+    const sortKey = scoreSortKey(rules, resultScore(r));
+    const key = sortKey.join(",");
+    const group = groups.get(key);
+    if (group) group.ids.push(r.id);
+    else groups.set(key, { sortKey, ids: [r.id] });
+  }
+  return [...groups.values()];
+}
+
+/**
+ * Regner ut sortKey på nytt for alle lagrede scores på workouten (brukere, Top 40 og community).
+ * Må kjøres når scoreType eller tiebreakPolicy endres, ellers rangeres leaderboarden med gamle nøkler.
+ */
+export async function refreshSortKeys(
+  db: Prisma.TransactionClient,
+  workout: ScoringRules & { id: string },
+): Promise<void> {
+  const where = { workoutId: workout.id };
+  const select = { id: true, timeSeconds: true, reps: true, loadKg: true, tiebreakSecs: true } as const;
+
+  for (const g of groupBySortKey(workout, await db.userResult.findMany({ where, select }))) {
+    await db.userResult.updateMany({ where: { id: { in: g.ids } }, data: { sortKey: g.sortKey } });
+  }
+  for (const g of groupBySortKey(workout, await db.benchmarkResult.findMany({ where, select }))) {
+    await db.benchmarkResult.updateMany({ where: { id: { in: g.ids } }, data: { sortKey: g.sortKey } });
+  }
+  for (const g of groupBySortKey(workout, await db.communityBenchmark.findMany({ where, select }))) {
+    await db.communityBenchmark.updateMany({ where: { id: { in: g.ids } }, data: { sortKey: g.sortKey } });
+  }
+}
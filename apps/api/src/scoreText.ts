@@ -0,0 +1,204 @@
+import type { LoadUnit, ScoreType } from "@prisma/client";
+import { assertScoreMatchesType, isCapped, type NormalizedScore, type ScoringRules } from "./scoring.ts";
+import { formatLoad, toKg } from "./units.ts";
+import { readStructure, repsFromProgress } from "./workoutStructure.ts";
+
+type Segment =
+  | { kind: "tiebreak"; seconds: number }
+  | { kind: "cap"; repsRemaining: number }
+  | { kind: "progress"; rounds: number; reps: number }
+  | { kind: "clock"; seconds: number }
+  | { kind: "seconds"; seconds: number }
+  | { kind: "reps"; reps: number }
+  | { kind: "load"; value: number; unit: LoadUnit }
+  | { kind: "number"; value: number };
+
+/**
+ * Tolker en score slik den skrives på whiteboardet eller står på CrossFit-leaderboardet:
+ *   "12:34", "754", "754s"        -> TIME
+ *   "215", "215 reps"             -> REPS
+ *   "100 kg", "225 lb", "102,5"   -> LOAD (uten enhet = loadUnit, standard kg)
+ *   "215 / 11:32"                 -> TIME_REPS
+ *   "CAP+17", "283 reps"          -> TIME/TIME_REPS stoppet av time cap (17 reps igjen / 283 reps utført)
+ *   "3 rounds + 12", "3+12"       -> reps etter 3 ferdige runder og 12 reps inn i den fjerde
+ *   "... / tb 1:45"               -> tiebreak for alle typer
+ *
+ * "CAP+N" krever at workouten har totalReps, runder + reps at den har en struktur.
+ * Vekt avrundes og lagres i kg (se units.ts).
+ */
+export function parseScoreText(rules: ScoringRules, text: string, loadUnit: LoadUnit = "KG"): NormalizedScore {
+  const { scoreType } = rules;
+  const raw = text.trim();
+  if (!raw) throw new Error("Tom score");
+
+  const segments = raw.split("/").map((part) => parseSegment(part.trim(), raw));
+  const score: NormalizedScore = {};
+
+  for (const seg of segments) {
+    switch (seg.kind) {
+      case "tiebreak":
+        setOnce(score, "tiebreakSecs", seg.seconds, raw);
+        break;
+      case "cap":
+        if (scoreType !== "TIME" && scoreType !== "TIME_REPS") throw new Error(`${scoreType} har ingen time cap: "${raw}"`);
+        setOnce(score, "reps", repsAtCap(seg.repsRemaining, rules, raw), raw);
+        break;
+      case "progress":
+        if (scoreType === "LOAD") throw new Error(`${scoreType} tar ikke reps: "${raw}"`);
+        setOnce(score, "reps", repsAtProgress(seg, rules, raw), raw);
+        break;
+      case "clock":
+      case "seconds":
+        if (scoreType === "REPS" || scoreType === "LOAD") throw new Error(`${scoreType} tar ikke en tid: "${raw}"`);
+        setOnce(score, "timeSeconds", positive(seg.seconds, raw), raw);
+        break;
+      case "reps":
+        if (scoreType === "LOAD") throw new Error(`${scoreType} tar ikke reps: "${raw}"`);
+        setOnce(score, "reps", seg.reps, raw);
+        break;
+      case "load":
+        if (scoreType !== "LOAD") throw new Error(`${scoreType} tar ikke vekt: "${raw}"`);
+        setOnce(score, "loadKg", toKg(seg.value, seg.unit), raw);
+        break;
+      case "number":
+        assignBareNumber(scoreType, score, seg.value, raw, loadUnit);
+        break;
+    }
+  }
+
+  // Ferdig TIME_REPS uten reps betyr at alle reps er gjort
+  if (scoreType === "TIME_REPS" && score.reps == null && score.timeSeconds != null && rules.totalReps != null) {
+    score.reps = rules.totalReps;
+  }
+
+  assertScoreMatchesType(rules, score);
+  return score;
+}
+
+export function parseClockToSeconds(input: string): number | null {
+  const s = input.trim();
+  if (/^\d+$/.test(s)) return Number(s);
+  if (!/^\d+(:\d{1,2}){1,2}$/.test(s)) return null;
+
+  const nums = s.split(":").map(Number);
+  if (nums.slice(1).some((n) => n >= 60)) return null;
+  return nums.reduce((acc, n) => acc * 60 + n, 0);
+}
+
+/** Motsatt vei av parseScoreText: "12:34", "CAP+12", "215 reps / 11:32", "102.5 kg / tb 1:45" ("225 lb" med LB). */
+export function formatScore(rules: ScoringRules, s: NormalizedScore, loadUnit: LoadUnit = "KG"): string {
+  const parts: string[] = [];
+
+  if (isCapped(rules.scoreType, s)) {
+    parts.push(formatCap(rules, s.reps!));
+  } else {
+    switch (rules.scoreType) {
+      case "TIME":
+        parts.push(s.timeSeconds == null ? "-" : formatClock(s.timeSeconds));
+        break;
+      case "REPS":
+        parts.push(s.reps == null ? "-" : `${s.reps} reps`);
+        break;
+      case "LOAD":
+        parts.push(s.loadKg == null ? "-" : formatLoad(s.loadKg, loadUnit));
+        break;
+      case "TIME_REPS":
+        if (s.reps != null && rules.totalReps != null && s.reps < rules.totalReps) parts.push(formatCap(rules, s.reps));
+        else if (s.reps != null && s.reps !== rules.totalReps) parts.push(`${s.reps} reps`);
+        if (s.timeSeconds != null) parts.push(formatClock(s.timeSeconds));
+        break;
+    }
+  }
+
+  if (s.tiebreakSecs != null) parts.push(`tb ${formatClock(s.tiebreakSecs)}`);
+  return parts.length ? parts.join(" / ") : "-";
+}
+
+export function formatClock(seconds: number): string {
+  const s = Math.max(0, Math.floor(seconds));
+  const hh = Math.floor(s / 3600);
+  const mm = Math.floor((s % 3600) / 60);
+  const ss = s % 60;
+  if (hh > 0) return `${hh}:${String(mm).padStart(2, "0")}:${String(ss).padStart(2, "0")}`;
+  return `${mm}:${String(ss).padStart(2, "0")}`;
+}
+
+function formatCap(rules: ScoringRules, reps: number): string {
+  if (rules.totalReps != null) return `CAP+${rules.totalReps - reps}`;
+  return `CAP (${reps} reps)`;
+}
+
+function parseSegment(part: string, raw: string): Segment {
+  const s = part.toLowerCase().replace(/\s+/g, " ");
+  let m: RegExpMatchArray | null;
+
+  if ((m = s.match(/^(?:tb|tiebreak)\s*:?\s*(.+)$/))) {
+    const seconds = parseClockToSeconds(m[1]);
+    if (seconds == null) throw new Error(`Ugyldig tiebreak: "${raw}"`);
+    return { kind: "tiebreak", seconds };
+  }
+  if ((m = s.match(/^cap\s*\+\s*(\d+)$/))) return { kind: "cap", repsRemaining: Number(m[1]) };
+  if ((m = s.match(/^(\d+) ?(?:rounds?|rds?|runder?)? ?\+ ?(\d+)(?: ?reps?)?$/))) {
+    return { kind: "progress", rounds: Number(m[1]), reps: Number(m[2]) };
+  }
+  if ((m = s.match(/^(\d+) ?(?:rounds?|rds?|runder?)$/))) return { kind: "progress", rounds: Number(m[1]), reps: 0 };
+  if (s.includes(":")) {
+    const seconds = parseClockToSeconds(s);
+    if (seconds == null) throw new Error(`Ugyldig tid: "${raw}"`);
+    return { kind: "clock", seconds };
+  }
+  if ((m = s.match(/^(\d+) ?(?:s|sec|sek)$/))) return { kind: "seconds", seconds: Number(m[1]) };
+  if ((m = s.match(/^(\d+) ?reps?$/))) return { kind: "reps", reps: Number(m[1]) };
+  if ((m = s.match(/^(\d+(?:[.,]\d+)?) ?(kg|kgs|lb|lbs|#)$/))) {
+    const value = Number(m[1].replace(",", "."));
+    if (value <= 0) throw new Error(`Ugyldig vekt: "${raw}"`);
+    return { kind: "load", value, unit: m[2].startsWith("kg") ? "KG" : "LB" };
+  }
+  if ((m = s.match(/^\d+(?:[.,]\d+)?$/))) return { kind: "number", value: Number(s.replace(",", ".")) };
+
+  throw new Error(`Forstår ikke score: "${raw}"`);
+}
+
+// Et tall uten enhet betyr hovedfeltet for scoreType.
+function assignBareNumber(
+  scoreType: ScoreType,
+  score: NormalizedScore,
+  value: number,
+  raw: string,
+  loadUnit: LoadUnit,
+): void {
+  if (scoreType === "LOAD") {
+    if (value <= 0) throw new Error(`Ugyldig vekt: "${raw}"`);
+    setOnce(score, "loadKg", toKg(value, loadUnit), raw);
+    return;
+  }
+  if (!Number.isInteger(value)) throw new Error(`Forventet et heltall: "${raw}"`);
+  if (scoreType === "TIME") setOnce(score, "timeSeconds", positive(value, raw), raw);
+  else setOnce(score, "reps", value, raw);
+}
+
+function repsAtCap(repsRemaining: number, rules: ScoringRules, raw: string): number {
+  if (rules.totalReps == null) throw new Error(`"${raw}": CAP+N krever at workouten har totalt antall reps`);
+  if (repsRemaining < 1 || repsRemaining > rules.totalReps) throw new Error(`Ugyldig CAP-score: "${raw}"`);
+  return rules.totalReps - repsRemaining;
+}
+
+function repsAtProgress(progress: { rounds: number; reps: number }, rules: ScoringRules, raw: string): number {
+  const structure = readStructure(rules.structure);
+  if (!structure) throw new Error(`"${raw}": runder + reps krever at workouten har en struktur`);
+  try {
+    return repsFromProgress(structure, progress);
+  } catch (e) {
+    throw new Error(`"${raw}": ${(e as Error).message}`);
+  }
+}
+
+function positive(n: number, raw: string): number {
+  if (n <= 0) throw new Error(`Tid må være større enn 0: "${raw}"`);
+  return n;
+}
+
+function setOnce(score: NormalizedScore, key: keyof NormalizedScore, value: number, raw: string): void {
+  if (score[key] != null) throw new Error(`"${raw}" inneholder ${key} mer enn én gang`);
+  score[key] = value;
+}
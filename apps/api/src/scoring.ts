@@ -1,4 +1,4 @@
-import type { ScoreType } from "@prisma/client";
+import type { ScoreType, TiebreakPolicy } from "@prisma/client";
 
 export type NormalizedScore = {
   timeSeconds?: number | null;
@@ -7,15 +7,33 @@ export type NormalizedScore = {
   tiebreakSecs?: number | null;
 };
 
-export function assertScoreMatchesType(scoreType: ScoreType, s: NormalizedScore): void {
+// Det scoringen trenger å vite om en workout; en Prisma Workout kan sendes rett inn.
+export type ScoringRules = {
+  scoreType: ScoreType;
+  timeCapSeconds?: number | null;
+  totalReps?: number | null;
+  tiebreakPolicy?: TiebreakPolicy | null;
+  // Strukturert definisjon (Json), brukes til å regne om "runder + reps"
+  structure?: unknown;
+};
+
+// TIME_REPS har alltid brukt tiden som tiebreak; de andre bruker tiebreakSecs.
+export function defaultTiebreakPolicy(scoreType: ScoreType): TiebreakPolicy {
+  return scoreType === "TIME_REPS" ? "TIME_AS_TIEBREAK" : "LOWER_TIEBREAK";
+}
+
+export function assertScoreMatchesType(rules: ScoringRules, s: NormalizedScore): void {
   const hasTime = typeof s.timeSeconds === "number";
   const hasReps = typeof s.reps === "number";
   const hasLoad = typeof s.loadKg === "number";
+  const cap = rules.timeCapSeconds ?? null;
 
-  switch (scoreType) {
+  switch (rules.scoreType) {
     case "TIME":
-      if (!hasTime) throw new Error("TIME krever timeSeconds");
-      return;
+      if (hasTime && hasReps) throw new Error("TIME tar enten timeSeconds eller reps ved time cap, ikke begge");
+      if (!hasTime && !hasReps) throw new Error("TIME krever timeSeconds (eller reps ved time cap)");
+      if (hasReps && cap == null) throw new Error("Workouten har ingen time cap, så TIME krever timeSeconds");
+      break;
     case "REPS":
       if (!hasReps) throw new Error("REPS krever reps");
       return;
@@ -24,31 +42,67 @@ export function assertScoreMatchesType(scoreType: ScoreType, s: NormalizedScore)
       return;
     case "TIME_REPS":
       if (!hasReps) throw new Error("TIME_REPS krever reps");
-      return;
+      break;
+  }
+
+  if (hasTime && cap != null && s.timeSeconds! > cap) {
+    throw new Error(`Tiden er over time cap (${cap} sekunder)`);
   }
+  if (hasReps && rules.totalReps != null && s.reps! > rules.totalReps) {
+    throw new Error(`Workouten har bare ${rules.totalReps} reps`);
+  }
+}
+
+// TIME-score uten tid, men med reps, betyr at utøveren ble stoppet av time cap.
+export function isCapped(scoreType: ScoreType, s: NormalizedScore): boolean {
+  return scoreType === "TIME" && s.timeSeconds == null && typeof s.reps === "number";
 }
 
-export function compareScores(scoreType: ScoreType, a: NormalizedScore, b: NormalizedScore): number {
+/**
+ * Negativ hvis a er bedre enn b, 0 ved uavgjort. Først hovedscoren for scoreType,
+ * deretter workoutens tiebreakPolicy.
+ */
+export function compareScores(rules: ScoringRules, a: NormalizedScore, b: NormalizedScore): number {
   const na = normalize(a);
   const nb = normalize(b);
+  const primary = comparePrimary(rules.scoreType, na, nb);
+  if (primary !== 0) return primary;
 
+  switch (rules.tiebreakPolicy ?? defaultTiebreakPolicy(rules.scoreType)) {
+    case "NONE":
+      return 0;
+    case "LOWER_TIEBREAK":
+      return lowerWins(na.tiebreakSecs, nb.tiebreakSecs);
+    case "TIME_AS_TIEBREAK":
+      return lowerWins(na.timeSeconds, nb.timeSeconds);
+  }
+}
+
+function comparePrimary(scoreType: ScoreType, na: Required<NormalizedScore>, nb: Required<NormalizedScore>): number {
   switch (scoreType) {
-    case "TIME":
-      return na.timeSeconds! - nb.timeSeconds!;
+    case "TIME": {
+      const capA = isCapped(scoreType, na);
+      const capB = isCapped(scoreType, nb);
+      if (!capA && !capB) return na.timeSeconds! - nb.timeSeconds!;
+      // Alle som fullfører slår alle som blir capped
+      if (capA !== capB) return capA ? 1 : -1;
+      return nb.reps! - na.reps!;
+    }
     case "REPS":
+    case "TIME_REPS":
       return nb.reps! - na.reps!;
     case "LOAD":
       return (nb.loadKg! - na.loadKg!);
-    case "TIME_REPS": {
-      const repsDiff = nb.reps! - na.reps!;
-      if (repsDiff !== 0) return repsDiff;
-      const ta = na.timeSeconds ?? Number.MAX_SAFE_INTEGER;
-      const tb = nb.timeSeconds ?? Number.MAX_SAFE_INTEGER;
-      return ta - tb;
-    }
   }
 }
 
+// Lavest vinner; den som mangler verdien taper mot den som har den.
+function lowerWins(a: number | null, b: number | null): number {
+  const va = a ?? Number.MAX_SAFE_INTEGER;
+  const vb = b ?? Number.MAX_SAFE_INTEGER;
+  return va - vb;
+}
+
 function normalize(s: NormalizedScore): Required<NormalizedScore> {
   return {
     timeSeconds: s.timeSeconds ?? null,
@@ -58,36 +112,94 @@ function normalize(s: NormalizedScore): Required<NormalizedScore> {
   };
 }
 
+// Sorteringsnøkkel der lavere er bedre, i samme rekkefølge som compareScores:
+// [capped (bare TIME), hovedscore, tiebreak]. Lagres på resultatene (sortKey) slik at
+// databasen kan rangere; lik nøkkel = delt plass.
+export type SortKey = [number, number, number];
+
+// Som lowerWins: den som mangler tiebreak taper
+const MISSING_KEY = Number.MAX_SAFE_INTEGER;
+
+export function scoreSortKey(rules: ScoringRules, s: NormalizedScore): SortKey {
+  const policy = rules.tiebreakPolicy ?? defaultTiebreakPolicy(rules.scoreType);
+  const tiebreak =
+    policy === "NONE"
+      ? 0
+      : policy === "LOWER_TIEBREAK"
+        ? (s.tiebreakSecs ?? MISSING_KEY)
+        : (s.timeSeconds ?? MISSING_KEY);
+
+  switch (rules.scoreType) {
+    case "TIME":
+      return isCapped(rules.scoreType, s) ? [1, -s.reps!, tiebreak] : [0, s.timeSeconds ?? MISSING_KEY, tiebreak];
+    case "REPS":
+    case "TIME_REPS":
+      return [0, -(s.reps ?? 0), tiebreak];
+    case "LOAD":
+      return [0, -(s.loadKg ?? 0), tiebreak];
+  }
+}
+
+/** Som compareScores, for nøkler fra scoreSortKey. */
+export function compareSortKeys(a: readonly number[], b: readonly number[]): number {
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    if (a[i] !== b[i]) return a[i] - b[i];
+  }
+  return a.length - b.length;
+}
+
 export function computeBenchmarkBeatenCount(
-  scoreType: ScoreType,
+  rules: ScoringRules,
   userScore: NormalizedScore,
   benchmarkScores: NormalizedScore[]
 ): number {
   let beaten = 0;
   for (const bs of benchmarkScores) {
-    if (compareScores(scoreType, userScore, bs) < 0) beaten += 1;
+    if (compareScores(rules, userScore, bs) < 0) beaten += 1;
   }
   return beaten;
 }
 
+// Konkurranse-rangering ("1, 2, 2, 4"): rank = 1 + antall som er strengt bedre.
+export type Placement = {
+  rank: number;
+  // Antall andre med nøyaktig samme plassering
+  tiedWith: number;
+};
+
 export function computeRankAmongBenchmarkPlusUser(
-  scoreType: ScoreType,
+  rules: ScoringRules,
   userScore: NormalizedScore,
   benchmarkScores: NormalizedScore[]
 ): number {
-  const all = [...benchmarkScores, userScore];
-  all.sort((x, y) => compareScores(scoreType, x, y));
-  const idx = all.findIndex((s) => isSameScore(s, userScore));
-  return idx === -1 ? all.length : idx + 1;
+  return computePlacementAmongBenchmarkPlusUser(rules, userScore, benchmarkScores).rank;
 }
 
-function isSameScore(a: NormalizedScore, b: NormalizedScore): boolean {
-  return (
-    (a.timeSeconds ?? null) === (b.timeSeconds ?? null) &&
-    (a.reps ?? null) === (b.reps ?? null) &&
-    (a.loadKg ?? null) === (b.loadKg ?? null) &&
-    (a.tiebreakSecs ?? null) === (b.tiebreakSecs ?? null)
-  );
+export function computePlacementAmongBenchmarkPlusUser(
+  rules: ScoringRules,
+  userScore: NormalizedScore,
+  benchmarkScores: NormalizedScore[]
+): Placement {
+  let better = 0;
+  let tied = 0;
+  for (const bs of benchmarkScores) {
+    const c = compareScores(rules, bs, userScore);
+    if (c < 0) better += 1;
+    else if (c === 0) tied += 1;
+  }
+  return { rank: better + 1, tiedWith: tied };
+}
+
+/** Plasseringer for en liste som allerede er sortert med compareScores. */
+export function competitionRanks<T>(sorted: T[], cmp: (a: T, b: T) => number): Placement[] {
+  const ranks: number[] = [];
+  for (let i = 0; i < sorted.length; i++) {
+    ranks.push(i > 0 && cmp(sorted[i - 1], sorted[i]) === 0 ? ranks[i - 1] : i + 1);
+  }
+
+  const groupSize = new Map<number, number>();
+  for (const r of ranks) groupSize.set(r, (groupSize.get(r) ?? 0) + 1);
+  return ranks.map((rank) => ({ rank, tiedWith: groupSize.get(rank)! - 1 }));
 }
 
 export function pointsFromRank(rank: number): number {
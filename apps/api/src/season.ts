@@ -0,0 +1,245 @@
+import type { CompetitionType, LoadUnit, ScalingLevel, Season, UserResult, Workout } from "@prisma/client";
+import { prisma } from "./db.ts";
+import { getCompetitionSettings, type CompetitionSettings } from "./competitionConfig.ts";
+import { compareTotals, getPointsScheme, pointsForPlacement, type PointsScheme } from "./points.ts";
+import {
+  competitionRanks,
+  computeBenchmarkBeatenCount,
+  computePlacementAmongBenchmarkPlusUser,
+  type NormalizedScore,
+} from "./scoring.ts";
+import { formatScore } from "./scoreText.ts";
+import { countingResults, resultScore } from "./results.ts";
+import { DIVISION_PROFILE_SELECT, listDivisions, resolveDivision } from "./divisions.ts";
+import { getBenchmarkScores } from "./benchmarkCache.ts";
+
+// Alt som trengs for å regne poeng for én sesong/konkurranse/divisjon, hentet én gang.
+export type SeasonContext = {
+  season: Season;
+  competition: CompetitionType;
+  division: string;
+  scaling: ScalingLevel;
+  workouts: Workout[];
+  benchmarks: Map<string, NormalizedScore[]>;
+  settings: CompetitionSettings;
+  scheme: PointsScheme;
+};
+
+export type SeasonWorkoutScore = {
+  workoutId: string;
+  attempt: number;
+  points: number;
+  beatenCount: number;
+  rank: number;
+  tiedWith: number;
+  display: string;
+};
+
+export type SeasonTotals = {
+  totalPoints: number;
+  completedWorkouts: number;
+  missingWorkouts: number;
+  perWorkout: SeasonWorkoutScore[];
+};
+
+export type SeasonResultScope = {
+  userIds?: string[];
+  validatedOnly?: boolean;
+};
+
+export type SeasonStanding = {
+  userId: string;
+  position: number;
+  tied: boolean;
+  totalPoints: number;
+  completedWorkouts: number;
+};
+
+export async function loadSeasonContext(
+  year: number,
+  competition: CompetitionType,
+  division: string,
+  scaling: ScalingLevel,
+): Promise<SeasonContext | null> {
+  const season = await prisma.season.findUnique({ where: { year } });
+  if (!season) return null;
+
+  const workouts = await prisma.workout.findMany({
+    where: { seasonId: season.id, competition, division, scaling },
+    orderBy: { createdAt: "asc" },
+  });
+
+  // Fra benchmark-cachen; sesongpoeng regnes bare mot importert Top 40
+  const cachedScores = await getBenchmarkScores(workouts.map((w) => w.id));
+  const benchmarks = new Map<string, NormalizedScore[]>(
+    workouts.map((w) => {
+      const entry = cachedScores.get(w.id)!;
+      return [w.id, entry.source === "TOP40" ? entry.scores : []];
+    }),
+  );
+
+  const settings = await getCompetitionSettings(season.id, competition);
+  const scheme = getPointsScheme(settings.pointsScheme);
+  return { season, competition, division, scaling, workouts, benchmarks, settings, scheme };
+}
+
+/**
+ * Brukerresultater for sesongens workouts, også når de er logget på samme workout i en annen
+ * divisjon (f.eks. Men-varianten for en 40-åring); workoutId byttes da til varianten i ctx.
+ * Uten userId tas bare brukere som hører til ctx.division med: profilens divisjon, eller
+ * divisjonen til workoutene de har logget når profilen mangler kjønn. userIds begrenser
+ * til et utvalg brukere (f.eks. en affiliate), validatedOnly til dømte resultater.
+ */
+export async function loadSeasonResults(
+  ctx: SeasonContext,
+  scope: SeasonResultScope & { userId?: string } = {},
+): Promise<UserResult[]> {
+  const { userId, ...rest } = scope;
+  const rows = await loadSeasonRows(ctx, { ...rest, userIds: userId ? [userId] : rest.userIds });
+  return rows.filter((r) => userId || r.inDivision).map(({ inDivision, ...r }) => r);
+}
+
+// Resultatene med workoutId byttet til varianten i ctx; inDivision sier om brukeren hører til ctx.division
+async function loadSeasonRows(
+  ctx: SeasonContext,
+  scope: SeasonResultScope,
+): Promise<Array<UserResult & { inDivision: boolean }>> {
+  const { userIds, validatedOnly } = scope;
+  const byName = new Map(ctx.workouts.map((w) => [w.name, w.id]));
+  const rows = await prisma.userResult.findMany({
+    where: {
+      ...(userIds ? { userId: { in: userIds } } : {}),
+      ...(validatedOnly ? { validationStatus: "VALIDATED" as const } : {}),
+      workout: {
+        seasonId: ctx.season.id,
+        competition: ctx.competition,
+        scaling: ctx.scaling,
+        name: { in: [...byName.keys()] },
+      },
+    },
+    include: {
+      workout: { select: { name: true, division: true } },
+      user: { select: DIVISION_PROFILE_SELECT },
+    },
+  });
+
+  const divisions = await listDivisions();
+  return rows.map(({ workout, user, ...r }) => ({
+    ...r,
+    workoutId: byName.get(workout.name)!,
+    inDivision: (resolveDivision(user, ctx.season.year, divisions) ?? workout.division) === ctx.division,
+  }));
+}
+
+/**
+ * Poeng per workout og totalt for én bruker; workouts uten resultat gir ordningens straffepoeng.
+ * userResults kan inneholde flere forsøk per workout, det tellende velges etter workoutens resultPolicy.
+ */
+export function computeSeasonTotals(
+  ctx: SeasonContext,
+  userResults: UserResult[],
+  loadUnit: LoadUnit = "KG",
+): SeasonTotals {
+  const totals: SeasonTotals = { totalPoints: 0, completedWorkouts: 0, missingWorkouts: 0, perWorkout: [] };
+  const counting = countingResults(ctx.workouts, userResults);
+
+  for (const w of ctx.workouts) {
+    const benchmark = ctx.benchmarks.get(w.id) ?? [];
+    const ur = counting.find((r) => r.workoutId === w.id);
+    if (!ur) {
+      totals.missingWorkouts += 1;
+      totals.totalPoints += ctx.scheme.pointsForMissing(benchmark.length + 1);
+      continue;
+    }
+
+    const userScore = resultScore(ur);
+
+    const placement = computePlacementAmongBenchmarkPlusUser(w, userScore, benchmark);
+    const points = pointsForPlacement(ctx.scheme, placement, ctx.settings.tiePointsRule);
+
+    totals.totalPoints += points;
+    totals.completedWorkouts += 1;
+    totals.perWorkout.push({
+      workoutId: w.id,
+      attempt: ur.attempt,
+      points,
+      beatenCount: computeBenchmarkBeatenCount(w, userScore, benchmark),
+      rank: placement.rank,
+      tiedWith: placement.tiedWith,
+      display: formatScore(w, userScore, loadUnit),
+    });
+  }
+
+  return totals;
+}
+
+/**
+ * Rangerer alle brukere med minst ett resultat i sesongen: først totalpoeng etter
+ * poengordningen, deretter flest fullførte workouts. Like brukere deler plass.
+ * scope begrenser til en affiliate og/eller dømte resultater.
+ */
+export async function computeSeasonStandings(
+  ctx: SeasonContext,
+  scope: SeasonResultScope = {},
+): Promise<SeasonStanding[]> {
+  return standingsFromResults(ctx, await loadSeasonResults(ctx, scope));
+}
+
+function standingsFromResults(ctx: SeasonContext, results: UserResult[]): SeasonStanding[] {
+  const byUser = new Map<string, UserResult[]>();
+  for (const r of results) {
+    const list = byUser.get(r.userId);
+    if (list) list.push(r);
+    else byUser.set(r.userId, [r]);
+  }
+
+  const rows = [...byUser].map(([userId, userResults]) => {
+    const totals = computeSeasonTotals(ctx, userResults);
+    return { userId, totalPoints: totals.totalPoints, completedWorkouts: totals.completedWorkouts };
+  });
+
+  return rankStandings(ctx, rows);
+}
+
+/**
+ * Brukerens totaler og sesongplasseringene fra én henting av resultatene (for /summary).
+ * Brukerens egne resultater teller uansett divisjon, som i loadSeasonResults med userId.
+ */
+export async function computeSeasonSummary(
+  ctx: SeasonContext,
+  userId: string,
+  scope: SeasonResultScope = {},
+  loadUnit: LoadUnit = "KG",
+): Promise<{ totals: SeasonTotals; standings: SeasonStanding[] }> {
+  const { userIds, validatedOnly } = scope;
+  const rows = await loadSeasonRows(ctx, { validatedOnly, userIds: userIds && [...userIds, userId] });
+
+  const mine: UserResult[] = [];
+  const field: UserResult[] = [];
+  const inScope = userIds ? new Set(userIds) : null;
+  for (const { inDivision, ...r } of rows) {
+    if (r.userId === userId) mine.push(r);
+    if (inDivision && (!inScope || inScope.has(r.userId))) field.push(r);
+  }
+  return { totals: computeSeasonTotals(ctx, mine, loadUnit), standings: standingsFromResults(ctx, field) };
+}
+
+export type StandingTotals = Pick<SeasonStanding, "userId" | "totalPoints" | "completedWorkouts">;
+
+/** Plasseringer for ferdig summerte brukere (brukes også av simulatoren med en tenkt total). */
+export function rankStandings(ctx: SeasonContext, totals: StandingTotals[]): SeasonStanding[] {
+  const rows = [...totals];
+  const cmp = (a: StandingTotals, b: StandingTotals) =>
+    compareTotals(ctx.scheme, a.totalPoints, b.totalPoints) || b.completedWorkouts - a.completedWorkouts;
+  // userId bare for stabil rekkefølge mellom sider; delt plass avgjøres av cmp
+  rows.sort((a, b) => cmp(a, b) || a.userId.localeCompare(b.userId));
+  const placements = competitionRanks(rows, cmp);
+
+  return rows.map((r, idx) => ({
+    userId: r.userId,
+    totalPoints: r.totalPoints,
+    completedWorkouts: r.completedWorkouts,
+    position: placements[idx].rank,
+    tied: placements[idx].tiedWith > 0,
+  }));
+}
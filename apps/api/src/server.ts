@@ -1,303 +1,1906 @@
 // File: apps/api/src/server.ts
 import "dotenv/config";
-import Fastify from "fastify";
+import Fastify, { type FastifyReply, type FastifyRequest } from "fastify";
+import {
+  Prisma,
+  type AffiliateRole,
+  type CompetitionType,
+  type Gender,
+  type LoadUnit,
+  type ScalingLevel,
+  type Workout,
+} from "@prisma/client";
 import cors from "@fastify/cors";
 import { env } from "./env.ts";
 import { prisma } from "./db.ts";
-import { CompetitionSchema, DivisionSchema, LogResultSchema } from "./validators.ts";
+import {
+  AffiliateCreateSchema,
+  AffiliateJoinSchema,
+  AffiliateRoleUpdateSchema,
+  BenchmarkImportSchema,
+  ClaimCodeRequestSchema,
+  CommunityBenchmarkSchema,
+  CompetitionConfigSchema,
+  CompetitionSchema,
+  CountrySchema,
+  DistributionSchema,
+  DivisionCodeSchema,
+  DivisionUpsertSchema,
+  GenderSchema,
+  H2HSideSchema,
+  LibraryCompetitionSchema,
+  LibraryWorkoutSchema,
+  LibraryWorkoutUpdateSchema,
+  type LibraryWorkoutInput,
+  LoginSchema,
+  LogResultSchema,
+  MagicLinkRequestSchema,
+  MagicLinkVerifySchema,
+  ProfileSchema,
+  ProgressSchema,
+  type ProgressInput,
+  RegisterSchema,
+  RejectResultSchema,
+  RepeatOfUpdateSchema,
+  ResultPolicyUpdateSchema,
+  ScalingLevelSchema,
+  SetPasswordSchema,
+  SimulateSchema,
+  structureMatchesScoreType,
+  ValidateResultSchema,
+} from "./validators.ts";
+import {
+  consumeClaimCode,
+  consumeMagicLink,
+  createSession,
+  hashPassword,
+  isEmailIdentifier,
+  issueClaimCode,
+  normalizeIdentifier,
+  registerAuth,
+  requireUser,
+  revokeSession,
+  secretEquals,
+  sendMagicLink,
+  verifyPassword,
+} from "./auth.ts";
+import { getCompetitionSettings } from "./competitionConfig.ts";
+import { getPointsScheme, pointsForPlacement } from "./points.ts";
+import { computeSeasonStandings, computeSeasonSummary, loadSeasonContext } from "./season.ts";
+import {
+  DIVISION_PROFILE_SELECT,
+  findWorkoutVariant,
+  getDivisionSchema,
+  invalidateDivisions,
+  listDivisions,
+  resolveScaling,
+  resolveUserDivision,
+} from "./divisions.ts";
+import { estimateFieldPlacement, parseDistribution, replaceDistribution, type Breakpoint } from "./percentiles.ts";
+import { importBenchmark } from "./importer.ts";
+import {
+  canEditWorkout,
+  canViewWorkout,
+  isLibraryWorkout,
+  LIBRARY_COMPETITIONS,
+  visibleWorkoutsWhere,
+} from "./library.ts";
+import { invalidateBenchmarks, loadBenchmarkScores } from "./benchmarkCache.ts";
+import { assertSplitsMatchScore, comparePacing, parseSplits, type PacingSegment } from "./pacing.ts";
+import { computeUserProgress } from "./progress.ts";
+import { publishResult, publishWorkoutChange, streamFeed } from "./live.ts";
+import { headToHead, loadParticipantScores, resolveParticipant } from "./h2h.ts";
+import { requiredScore, simulatePlacement, simulateSeasonImpact, type RequiredScore } from "./simulate.ts";
+import {
+  decodeCursor,
+  workoutLeaderboardAround,
+  workoutLeaderboardPage,
+  type LeaderboardCursor,
+  type LeaderboardPage,
+  type WorkoutLeaderboardFilter,
+} from "./leaderboard.ts";
+import { countingResults, logAttempt, pickCountingResult, refreshSortKeys, resultScore } from "./results.ts";
+import {
+  affiliateScopeUserIds,
+  averageScore,
+  generateInviteCode,
+  requireAffiliateAccess,
+  reviewableUserIds,
+} from "./affiliates.ts";
 import {
   assertScoreMatchesType,
   compareScores,
+  competitionRanks,
   computeBenchmarkBeatenCount,
-  computeRankAmongBenchmarkPlusUser,
-  pointsFromRank,
+  computePlacementAmongBenchmarkPlusUser,
+  defaultTiebreakPolicy,
+  scoreSortKey,
+  type NormalizedScore,
 } from "./scoring.ts";
+import { formatScore, parseScoreText } from "./scoreText.ts";
+import { toKg } from "./units.ts";
+import {
+  describeWorkout,
+  formatProgress,
+  readStructure,
+  renderDescription,
+  repsFromProgress,
+  structureDefaults,
+} from "./workoutStructure.ts";
 
 const app = Fastify({ logger: true });
 
-type UserLookup = { userId?: string; email?: string };
+registerAuth(app);
+
+async function sessionResponse(user: { id: string; email: string; name: string | null }) {
+  const { token, expiresAt } = await createSession(user.id);
+  return { user: { id: user.id, email: user.email, name: user.name }, token, expiresAt };
+}
+
+// Divisjon og skalering fra query; mangler de brukes den innloggede brukerens profil
+async function resolveDivisionQuery(
+  req: FastifyRequest,
+  year: number,
+  q: Partial<{ division: string; scaling: string }>,
+): Promise<{ division: string; scaling: ScalingLevel }> {
+  const profile = req.authUser
+    ? await prisma.user.findUnique({ where: { id: req.authUser.id }, select: DIVISION_PROFILE_SELECT })
+    : null;
+
+  const division = q.division ?? (profile ? await resolveUserDivision(profile, year) : undefined);
+  return {
+    division: (await getDivisionSchema()).parse(division),
+    scaling: ScalingLevelSchema.parse(q.scaling ?? (profile ? resolveScaling(profile) : "RX")),
+  };
+}
+
+// affiliateId i query krever medlemskap i affiliaten; false når svaret er sendt
+async function checkAffiliateAccess(
+  req: FastifyRequest,
+  reply: FastifyReply,
+  affiliateId: string | undefined,
+): Promise<boolean> {
+  if (!affiliateId) return true;
+  const user = requireUser(req, reply);
+  if (!user) return false;
+  return !!(await requireAffiliateAccess(reply, user.id, affiliateId));
+}
+
+/**
+ * affiliateId i query begrenser et leaderboard til affiliatens medlemmer og krever medlemskap.
+ * undefined: ingen scope; null: avvist (svaret er sendt).
+ */
+async function resolveAffiliateScope(
+  req: FastifyRequest,
+  reply: FastifyReply,
+  affiliateId: string | undefined,
+): Promise<string[] | undefined | null> {
+  if (!(await checkAffiliateAccess(req, reply, affiliateId))) return null;
+  return affiliateId ? affiliateScopeUserIds(affiliateId) : undefined;
+}
+
+// Private bibliotek-workouts (andres eller andre gyms) oppfører seg som om de ikke finnes
+async function findVisibleWorkout(req: FastifyRequest, workoutId: string): Promise<Workout | null> {
+  const workout = await prisma.workout.findUnique({ where: { id: workoutId } });
+  if (!workout || !(await canViewWorkout(req.authUser?.id ?? null, workout))) return null;
+  return workout;
+}
 
-function normalizeIdentifier(raw: string): string {
-  return raw.trim().normalize("NFC").toLocaleLowerCase("nb-NO");
+// Benchmark fra samme workout i brukerens divisjon (samme skalering) når den finnes
+async function resolveBenchmarkWorkout(workout: Workout, userId: string, divisionQuery?: string): Promise<Workout> {
+  const season = workout.seasonId ? await prisma.season.findUnique({ where: { id: workout.seasonId } }) : null;
+  const profile = await prisma.user.findUniqueOrThrow({ where: { id: userId }, select: DIVISION_PROFILE_SELECT });
+  const division = divisionQuery
+    ? (await getDivisionSchema()).parse(divisionQuery)
+    : ((await resolveUserDivision(profile, season?.year ?? new Date().getFullYear())) ?? workout.division);
+  if (division === workout.division) return workout;
+  return (await findWorkoutVariant(workout, division, workout.scaling)) ?? workout;
 }
 
-async function resolveUserIdOrThrow(lookup: UserLookup): Promise<string> {
-  if (lookup.userId) return lookup.userId;
+// Beskrivelsen generert fra strukturen ved siden av det lagrede fritekstet
+function withDisplayDescription<T extends Workout>(workout: T): T & { displayDescription: string } {
+  return { ...workout, displayDescription: describeWorkout(workout) };
+}
+
+// Reps fra fremdriften; på TIME uten tid er det resultatet ved time cap
+function repsFromWorkoutProgress(workout: Workout, progress: ProgressInput, timeSeconds: number | undefined): number {
+  const structure = readStructure(workout.structure);
+  if (!structure) throw new Error("progress krever at workouten har en struktur");
+  const reps = repsFromProgress(structure, progress);
+  if (workout.scoreType === "TIME" && timeSeconds === undefined && reps === workout.totalReps) {
+    throw new Error("Hele workouten er fullført; send tiden (timeSeconds) i stedet");
+  }
+  return reps;
+}
+
+// Den lagrede fremdriften som tekst, når resultatet ble logget med progress
+function progressDisplay(workout: Pick<Workout, "structure">, stored: unknown): string | null {
+  const structure = readStructure(workout.structure);
+  if (!structure || stored == null) return null;
+  const progress = ProgressSchema.safeParse(stored);
+  return progress.success ? formatProgress(structure, progress.data) : null;
+}
+
+// Resultater eller community-bidrag låser scoreType (og hindrer sletting)
+async function hasLoggedScores(workoutId: string): Promise<boolean> {
+  const [results, community] = await Promise.all([
+    prisma.userResult.count({ where: { workoutId } }),
+    prisma.communityBenchmark.count({ where: { workoutId } }),
+  ]);
+  return results + community > 0;
+}
 
-  const identifier = normalizeIdentifier(lookup.email ?? "");
-  if (!identifier) throw new Error("Missing userId or email");
+// Enheten vekt vises i: den innloggede brukerens valg, ellers kg
+function loadUnitFor(req: FastifyRequest): LoadUnit {
+  return req.authUser?.loadUnit ?? "KG";
+}
 
-  const user = await prisma.user.findUnique({ where: { email: identifier } });
-  if (!user) throw new Error("User not found for email/identifier");
-  return user.id;
+function requireAdmin(req: FastifyRequest, reply: FastifyReply): boolean {
+  if (!env.ADMIN_TOKEN) {
+    reply.code(403).send({ error: "Admin routes are disabled (ADMIN_TOKEN not set)" });
+    return false;
+  }
+  const token = req.headers["x-admin-token"];
+  if (typeof token !== "string" || !secretEquals(token, env.ADMIN_TOKEN)) {
+    reply.code(401).send({ error: "Invalid admin token" });
+    return false;
+  }
+  return true;
 }
 
 app.get("/health", async () => ({ ok: true }));
 
+/**
+ * Ny konto krever email. Kontoer fra før auth (opprettet med bare en identifier) tas over her:
+ * er identifieren en email sendes en innloggingslenke dit, ellers kreves en claim-kode fra admin.
+ */
+app.post("/auth/register", async (req, reply) => {
+  const body = RegisterSchema.parse(req.body);
+  const identifier = normalizeIdentifier(body.identifier);
+  const passwordHash = await hashPassword(body.password);
+
+  const existing = await prisma.user.findUnique({ where: { email: identifier } });
+  if (!existing) {
+    if (!isEmailIdentifier(identifier)) {
+      return reply.code(400).send({ error: "Nye kontoer må registreres med en gyldig email" });
+    }
+    const user = await prisma.user.create({
+      data: { email: identifier, name: body.name ?? identifier.split("@")[0], passwordHash, claimedAt: new Date() },
+    });
+    return reply.code(201).send(await sessionResponse(user));
+  }
+
+  if (existing.claimedAt) return reply.code(409).send({ error: "Kontoen er allerede registrert" });
+
+  if (isEmailIdentifier(identifier)) {
+    // Passordet settes først når eieren har logget inn via lenken (POST /auth/password)
+    await sendMagicLink(existing.email, existing.id);
+    return reply.code(202).send({ claimPending: true });
+  }
+
+  // Brukernavnet alene beviser ikke eierskap
+  if (!body.claimCode) {
+    return reply.code(409).send({
+      error: "Kontoen finnes fra før uten email. Be en admin om en claim-kode og send den med som claimCode.",
+      claimCodeRequired: true,
+    });
+  }
+  if (!(await consumeClaimCode(existing.id, body.claimCode))) {
+    return reply.code(401).send({ error: "Claim-koden er ugyldig eller utløpt" });
+  }
+
+  const user = await prisma.user.update({
+    where: { id: existing.id },
+    data: { passwordHash, claimedAt: new Date(), ...(body.name ? { name: body.name } : {}) },
+  });
+  return sessionResponse(user);
+});
+
+app.post("/auth/login", async (req, reply) => {
+  const body = LoginSchema.parse(req.body);
+
+  const user = await prisma.user.findUnique({ where: { email: normalizeIdentifier(body.identifier) } });
+  if (!user?.passwordHash || !(await verifyPassword(body.password, user.passwordHash))) {
+    return reply.code(401).send({ error: "Feil brukernavn eller passord" });
+  }
+
+  return sessionResponse(user);
+});
+
+// Svarer alltid ok, så ruten ikke avslører hvilke emailer som har konto
+app.post("/auth/magic-link", async (req) => {
+  const body = MagicLinkRequestSchema.parse(req.body);
+  const email = normalizeIdentifier(body.email);
+
+  // Kontoen opprettes først når lenken brukes, så ruten ikke fyller User-tabellen
+  const user = await prisma.user.findUnique({ where: { email }, select: { id: true } });
+  await sendMagicLink(email, user?.id ?? null);
+
+  return { ok: true };
+});
+
+app.post("/auth/magic-link/verify", async (req, reply) => {
+  const body = MagicLinkVerifySchema.parse(req.body);
+
+  const userId = await consumeMagicLink(body.token);
+  if (!userId) return reply.code(401).send({ error: "Lenken er ugyldig eller utløpt" });
+
+  const user = await prisma.user.findUniqueOrThrow({ where: { id: userId } });
+  return sessionResponse(user);
+});
+
+app.post("/auth/password", async (req, reply) => {
+  const authUser = requireUser(req, reply);
+  if (!authUser) return reply;
+
+  const body = SetPasswordSchema.parse(req.body);
+  await prisma.user.update({
+    where: { id: authUser.id },
+    data: { passwordHash: await hashPassword(body.password) },
+  });
+
+  return { ok: true };
+});
+
+app.post("/auth/logout", async (req, reply) => {
+  if (!requireUser(req, reply)) return reply;
+
+  await revokeSession(req.sessionId!);
+  return { ok: true };
+});
+
+app.get("/divisions", async () => ({ divisions: await listDivisions() }));
+
 app.get("/workouts", async (req) => {
-  const q = req.query as Partial<{ season: string; competition: string; division: string }>;
+  const q = req.query as Partial<{ season: string; competition: string; division: string; scaling: string }>;
   const year = Number(q.season);
   const competition = CompetitionSchema.parse(q.competition);
-  const division = DivisionSchema.parse(q.division);
+  const { division, scaling } = await resolveDivisionQuery(req, year, q);
 
   const season = await prisma.season.findUnique({ where: { year } });
   if (!season) return { workouts: [] };
 
   const workouts = await prisma.workout.findMany({
-    where: { seasonId: season.id, competition, division },
+    where: { seasonId: season.id, competition, division, scaling },
     orderBy: { createdAt: "asc" },
   });
 
-  return { workouts };
+  return { workouts: workouts.map(withDisplayDescription) };
 });
 
 app.get("/me", async (req, reply) => {
-  const q = req.query as Partial<{ email: string }>;
-  const identifier = normalizeIdentifier(String(q.email ?? ""));
-  if (!identifier) return reply.code(400).send({ error: "Missing email/identifier" });
+  const authUser = requireUser(req, reply);
+  if (!authUser) return reply;
 
-  const user = await prisma.user.findUnique({
-    where: { email: identifier },
-    select: { id: true, email: true, name: true, createdAt: true },
+  const user = await prisma.user.findUniqueOrThrow({
+    where: { id: authUser.id },
+    select: {
+      id: true,
+      email: true,
+      name: true,
+      createdAt: true,
+      loadUnit: true,
+      country: true,
+      ...DIVISION_PROFILE_SELECT,
+    },
   });
 
-  if (!user) return reply.code(404).send({ error: "User not found" });
+  // Nyeste først; cursor er id-en til siste resultat på forrige side (nextCursor)
+  const q = req.query as Partial<{ limit: string; cursor: string }>;
+  const limit = Math.max(1, Math.min(200, Number(q.limit ?? 50)));
 
-  const results = await prisma.userResult.findMany({
+  const rows = await prisma.userResult.findMany({
     where: { userId: user.id },
-    orderBy: { createdAt: "desc" },
-    take: 50,
+    orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+    take: limit + 1,
+    ...(q.cursor ? { cursor: { id: q.cursor }, skip: 1 } : {}),
     include: {
       workout: {
-        select: { id: true, name: true, competition: true, division: true, scoreType: true },
+        select: {
+          id: true,
+          name: true,
+          competition: true,
+          division: true,
+          scaling: true,
+          scoreType: true,
+          timeCapSeconds: true,
+          totalReps: true,
+          structure: true,
+        },
       },
     },
   });
 
-  return { user, results };
+  const results = rows.slice(0, limit);
+
+  return {
+    user,
+    nextCursor: rows.length > limit ? results[results.length - 1].id : null,
+    results: results.map(({ workout: { structure, ...workout }, ...r }) => ({
+      ...r,
+      workout,
+      display: formatScore(workout, resultScore(r), user.loadUnit),
+      progressDisplay: progressDisplay({ structure }, r.progress),
+    })),
+  };
+});
+
+app.put("/me/profile", async (req, reply) => {
+  const authUser = requireUser(req, reply);
+  if (!authUser) return reply;
+
+  const body = ProfileSchema.parse(req.body);
+  if (body.defaultDivision) (await getDivisionSchema()).parse(body.defaultDivision);
+
+  const user = await prisma.user.update({
+    where: { id: authUser.id },
+    data: body,
+    select: { id: true, email: true, name: true, loadUnit: true, country: true, ...DIVISION_PROFILE_SELECT },
+  });
+
+  return { user };
 });
 
 app.post("/results", async (req, reply) => {
+  const user = requireUser(req, reply);
+  if (!user) return reply;
+
   const body = LogResultSchema.parse(req.body);
 
-  const workout = await prisma.workout.findUnique({ where: { id: body.workoutId } });
+  const workout = await findVisibleWorkout(req, body.workoutId);
   if (!workout) return reply.code(404).send({ error: "Workout not found" });
 
-  const score = {
-    timeSeconds: body.timeSeconds,
-    reps: body.reps,
-    loadKg: body.loadKg,
-    tiebreakSecs: body.tiebreakSecs,
-  };
-
+  let score: NormalizedScore;
+  let splits: number[] = [];
   try {
-    assertScoreMatchesType(workout.scoreType, score);
+    score = body.scoreText
+      ? parseScoreText(workout, body.scoreText, user.loadUnit)
+      : {
+        timeSeconds: body.timeSeconds,
+        reps: body.progress ? repsFromWorkoutProgress(workout, body.progress, body.timeSeconds) : body.reps,
+        loadKg: body.load
+          ? toKg(body.load.value, body.load.unit)
+          : body.loadKg !== undefined
+            ? toKg(body.loadKg, "KG")
+            : undefined,
+        tiebreakSecs: body.tiebreakSecs,
+      };
+    assertScoreMatchesType(workout, score);
+    if (body.splits) {
+      splits = parseSplits(body.splits);
+      assertSplitsMatchScore(workout, score, splits);
+    }
   } catch (e) {
     return reply.code(400).send({ error: (e as Error).message });
   }
 
-  const identifier = body.email ? normalizeIdentifier(body.email) : undefined;
+  const saved = await logAttempt(user.id, workout, score, {
+    note: body.note,
+    judgeName: body.judgeName,
+    videoUrl: body.videoUrl,
+    requestValidation: body.requestValidation,
+    progress: body.progress,
+    splits,
+  });
+  publishResult(saved, workout);
+
+  return {
+    user: { id: user.id, email: user.email },
+    result: saved,
+    display: formatScore(workout, resultScore(saved), user.loadUnit),
+  };
+});
 
-  const user =
-    body.userId
-      ? await prisma.user.findUnique({ where: { id: body.userId } })
-      : identifier
-        ? await prisma.user.findUnique({ where: { email: identifier } })
-        : null;
+// Alle forsøk på én workout, eldste først, med hvilket som teller og når det ble satt ny PR
+app.get("/results/history", async (req, reply) => {
+  const user = requireUser(req, reply);
+  if (!user) return reply;
 
-  const ensuredUser =
-    user ??
-    (identifier
-      ? await prisma.user.create({
-        data: { email: identifier, name: identifier.includes("@") ? identifier.split("@")[0] : identifier },
-      })
-      : null);
+  const q = req.query as Partial<{ workoutId: string }>;
+  if (!q.workoutId) return reply.code(400).send({ error: "Missing workoutId" });
 
-  if (!ensuredUser) return reply.code(400).send({ error: "Du må sende userId eller email/identifier" });
+  const workout = await findVisibleWorkout(req, q.workoutId);
+  if (!workout) return reply.code(404).send({ error: "Workout not found" });
 
-  const saved = await prisma.userResult.upsert({
-    where: { userId_workoutId: { userId: ensuredUser.id, workoutId: body.workoutId } },
-    update: score,
-    create: { userId: ensuredUser.id, workoutId: body.workoutId, ...score },
+  const attempts = await prisma.userResult.findMany({
+    where: { userId: user.id, workoutId: workout.id },
+    orderBy: { attempt: "asc" },
   });
+  const counting = pickCountingResult(workout, attempts);
 
-  return { user: { id: ensuredUser.id, email: ensuredUser.email }, result: saved };
+  let best: NormalizedScore | null = null;
+  return {
+    workout: { id: workout.id, name: workout.name, scoreType: workout.scoreType, resultPolicy: workout.resultPolicy },
+    countingResultId: counting?.id ?? null,
+    attempts: attempts.map((r) => {
+      const score = resultScore(r);
+      const personalBest = !best || compareScores(workout, score, best) < 0;
+      if (personalBest) best = score;
+      return {
+        id: r.id,
+        attempt: r.attempt,
+        createdAt: r.createdAt,
+        note: r.note,
+        score,
+        display: formatScore(workout, score, user.loadUnit),
+        progressDisplay: progressDisplay(workout, r.progress),
+        splits: r.splits,
+        validationStatus: r.validationStatus,
+        judgeName: r.judgeName,
+        videoUrl: r.videoUrl,
+        rejectionReason: r.rejectionReason,
+        personalBest,
+        counting: r.id === counting?.id,
+      };
+    }),
+  };
 });
 
-app.get("/compare/workout/:workoutId", async (req, reply) => {
-  const { workoutId } = req.params as { workoutId: string };
-  const q = req.query as Partial<{ userId: string; email: string }>;
+// Coach/eier i en affiliate brukeren er medlem av kan godkjenne eller avvise resultatet
+async function loadReviewableResult(req: FastifyRequest, reply: FastifyReply) {
+  const reviewer = requireUser(req, reply);
+  if (!reviewer) return null;
 
-  let userId: string;
-  try {
-    userId = await resolveUserIdOrThrow({ userId: q.userId, email: q.email });
-  } catch (e) {
-    return reply.code(400).send({ error: (e as Error).message });
+  const { resultId } = req.params as { resultId: string };
+  const result = await prisma.userResult.findUnique({ where: { id: resultId }, include: { workout: true } });
+  if (!result) {
+    reply.code(404).send({ error: "Result not found" });
+    return null;
+  }
+  if (result.userId === reviewer.id) {
+    reply.code(403).send({ error: "Du kan ikke dømme ditt eget resultat" });
+    return null;
   }
+  if (!(await reviewableUserIds(reviewer.id)).has(result.userId)) {
+    reply.code(403).send({ error: "Not a coach for this athlete" });
+    return null;
+  }
+  return { reviewer, result };
+}
 
-  const workout = await prisma.workout.findUnique({ where: { id: workoutId } });
-  if (!workout) return reply.code(404).send({ error: "Workout not found" });
+app.post("/results/:resultId/validate", async (req, reply) => {
+  const loaded = await loadReviewableResult(req, reply);
+  if (!loaded) return reply;
 
-  const userResult = await prisma.userResult.findUnique({
-    where: { userId_workoutId: { userId, workoutId } },
+  const body = ValidateResultSchema.parse(req.body ?? {});
+  const result = await prisma.userResult.update({
+    where: { id: loaded.result.id },
+    data: {
+      validationStatus: "VALIDATED",
+      reviewedById: loaded.reviewer.id,
+      reviewedAt: new Date(),
+      rejectionReason: null,
+      ...(body.judgeName ? { judgeName: body.judgeName } : {}),
+    },
   });
-  if (!userResult) return reply.code(404).send({ error: "No user result for workout" });
+  // Påvirker leaderboards filtrert på validated
+  publishResult(result, loaded.result.workout);
 
-  const benchmark = await prisma.benchmarkResult.findMany({
-    where: { workoutId },
-    select: { timeSeconds: true, reps: true, loadKg: true, tiebreakSecs: true },
+  return { result };
+});
+
+app.post("/results/:resultId/reject", async (req, reply) => {
+  const loaded = await loadReviewableResult(req, reply);
+  if (!loaded) return reply;
+
+  const body = RejectResultSchema.parse(req.body);
+  const result = await prisma.userResult.update({
+    where: { id: loaded.result.id },
+    data: {
+      validationStatus: "REJECTED",
+      reviewedById: loaded.reviewer.id,
+      reviewedAt: new Date(),
+      rejectionReason: body.reason,
+    },
   });
+  // Avviste forsøk teller ikke lenger
+  publishResult(result, loaded.result.workout);
 
-  const userScore = {
-    timeSeconds: userResult.timeSeconds,
-    reps: userResult.reps,
-    loadKg: userResult.loadKg,
-    tiebreakSecs: userResult.tiebreakSecs,
-  };
+  return { result };
+});
+
+app.get("/compare/workout/:workoutId", async (req, reply) => {
+  const user = requireUser(req, reply);
+  if (!user) return reply;
+
+  const { workoutId } = req.params as { workoutId: string };
+  const userId = user.id;
+
+  const workout = await findVisibleWorkout(req, workoutId);
+  if (!workout) return reply.code(404).send({ error: "Workout not found" });
 
-  const beaten = computeBenchmarkBeatenCount(workout.scoreType, userScore, benchmark);
-  const rank = computeRankAmongBenchmarkPlusUser(workout.scoreType, userScore, benchmark);
-  const points = pointsFromRank(rank);
+  const attempts = await prisma.userResult.findMany({ where: { userId, workoutId } });
+  const userResult = pickCountingResult(workout, attempts);
+  if (!userResult) return reply.code(404).send({ error: "No user result for workout" });
+
+  const q = req.query as Partial<{ division: string }>;
+  const benchmarkWorkout = await resolveBenchmarkWorkout(workout, userId, q.division);
+
+  const { source: benchmarkSource, scores: benchmark } = await loadBenchmarkScores(benchmarkWorkout.id);
+
+  const userScore = resultScore(userResult);
+
+  const settings = await getCompetitionSettings(workout.seasonId, workout.competition);
+  const scheme = getPointsScheme(settings.pointsScheme);
+  const beaten = computeBenchmarkBeatenCount(benchmarkWorkout, userScore, benchmark);
+  const placement = computePlacementAmongBenchmarkPlusUser(benchmarkWorkout, userScore, benchmark);
+  const points = pointsForPlacement(scheme, placement, settings.tiePointsRule);
+
+  const breakpoints = await prisma.scorePercentile.findMany({
+    where: { workoutId: benchmarkWorkout.id },
+    select: { topPercent: true, timeSeconds: true, reps: true, loadKg: true, tiebreakSecs: true },
+  });
+  const fieldEstimate = estimateFieldPlacement(
+    benchmarkWorkout,
+    userScore,
+    breakpoints,
+    benchmarkWorkout.fieldSize,
+    { placement, total: benchmark.length },
+  );
 
   return {
-    workout: { id: workout.id, name: workout.name, scoreType: workout.scoreType },
+    workout: {
+      id: workout.id,
+      name: workout.name,
+      scoreType: workout.scoreType,
+      division: workout.division,
+      scaling: workout.scaling,
+    },
+    benchmarkWorkout: { id: benchmarkWorkout.id, division: benchmarkWorkout.division, scaling: benchmarkWorkout.scaling },
+    benchmarkSource,
     userScore,
+    userScoreDisplay: formatScore(workout, userScore, user.loadUnit),
+    resultPolicy: workout.resultPolicy,
+    attempt: userResult.attempt,
+    attempts: attempts.length,
+    validationStatus: userResult.validationStatus,
     benchmarkTotal: benchmark.length,
     beatenCount: beaten,
-    rankAmongBenchmarkPlusUser: rank,
+    rankAmongBenchmarkPlusUser: placement.rank,
+    tiedWith: placement.tiedWith,
+    pointsScheme: scheme.id,
+    tiePointsRule: settings.tiePointsRule,
     pointsEarned: points,
+    fieldEstimate,
   };
 });
 
-app.get("/summary", async (req, reply) => {
+// Hvor brukeren tapte tid per segment mot median Top 40; forsøket som teller, eller attemptId
+app.get("/compare/workout/:workoutId/pacing", async (req, reply) => {
+  const user = requireUser(req, reply);
+  if (!user) return reply;
+
+  const { workoutId } = req.params as { workoutId: string };
+  const q = req.query as Partial<{ division: string; attemptId: string }>;
+
+  const workout = await findVisibleWorkout(req, workoutId);
+  if (!workout) return reply.code(404).send({ error: "Workout not found" });
+
+  const attempts = await prisma.userResult.findMany({ where: { userId: user.id, workoutId } });
+  const userResult = q.attemptId ? attempts.find((r) => r.id === q.attemptId) : pickCountingResult(workout, attempts);
+  if (!userResult) return reply.code(404).send({ error: "No user result for workout" });
+  if (userResult.splits.length === 0) return reply.code(400).send({ error: "Resultatet har ingen splits" });
+
+  const benchmarkWorkout = await resolveBenchmarkWorkout(workout, user.id, q.division);
+  const benchmark = await prisma.benchmarkResult.findMany({
+    where: { workoutId: benchmarkWorkout.id, NOT: { splits: { isEmpty: true } } },
+    select: { splits: true },
+  });
+
+  const segments = comparePacing(workout, userResult.splits, benchmark.map((b) => b.splits));
+  const compared = segments.filter((seg) => seg.deltaSeconds != null);
+  const biggestLoss = compared.reduce<PacingSegment | null>(
+    (worst, seg) => (!worst || seg.deltaSeconds! > worst.deltaSeconds! ? seg : worst),
+    null,
+  );
+  const userScore = resultScore(userResult);
+
+  return {
+    workout: { id: workout.id, name: workout.name, scoreType: workout.scoreType },
+    benchmarkWorkout: { id: benchmarkWorkout.id, division: benchmarkWorkout.division, scaling: benchmarkWorkout.scaling },
+    attempt: userResult.attempt,
+    userScoreDisplay: formatScore(workout, userScore, user.loadUnit),
+    benchmarkAthletesWithSplits: benchmark.length,
+    segments,
+    totalDeltaSeconds: compared.length ? compared.reduce((sum, seg) => sum + seg.deltaSeconds!, 0) : null,
+    // Segmentet med mest tapt tid; null når brukeren var raskere eller like rask overalt
+    biggestLoss: biggestLoss && biggestLoss.deltaSeconds! > 0 ? biggestLoss : null,
+  };
+});
+
+// To sider mot hverandre per workout: app-brukere og/eller Top 40-utøvere (se H2HSideSchema)
+app.get("/compare/h2h", async (req, reply) => {
   const q = req.query as Partial<{
-    userId: string;
-    email: string;
+    a: string;
+    b: string;
     season: string;
     competition: string;
     division: string;
+    scaling: string;
   }>;
 
   const year = Number(q.season);
   const competition = CompetitionSchema.parse(q.competition);
-  const division = DivisionSchema.parse(q.division);
+  const { division, scaling } = await resolveDivisionQuery(req, year, q);
+  const sides = [H2HSideSchema.parse(q.a), H2HSideSchema.parse(q.b)];
+
+  let me: string | null = null;
+  if (sides.some((s) => s.kind === "ME")) {
+    const user = requireUser(req, reply);
+    if (!user) return reply;
+    me = user.id;
+  }
+
+  const ctx = await loadSeasonContext(year, competition, division, scaling);
+  if (!ctx) return reply.code(404).send({ error: "Season not found" });
+
+  const [a, b] = await Promise.all(
+    sides.map((s) => resolveParticipant(ctx, s.kind === "ME" ? { kind: "USER", id: me! } : s)),
+  );
+  if (!a || !b) return reply.code(404).send({ error: `Participant not found: ${!a ? q.a : q.b}` });
+
+  const [aScores, bScores] = await Promise.all([loadParticipantScores(ctx, a), loadParticipantScores(ctx, b)]);
+  const { workouts, record } = headToHead(ctx, aScores, bScores, loadUnitFor(req));
+
+  return { season: year, competition, division, scaling, a, b, record, workouts };
+});
+
+// Hva-om uten å lagre: plassering, poeng og sesongtotal for en tenkt score, eller scoren som trengs for et mål
+app.post("/simulate/workout/:workoutId", async (req, reply) => {
+  const user = requireUser(req, reply);
+  if (!user) return reply;
 
-  let userId: string;
+  const { workoutId } = req.params as { workoutId: string };
+  const body = SimulateSchema.parse(req.body);
+
+  const workout = await findVisibleWorkout(req, workoutId);
+  if (!workout) return reply.code(404).send({ error: "Workout not found" });
+
+  const benchmarkWorkout = await resolveBenchmarkWorkout(workout, user.id, body.division);
+  const { source: benchmarkSource, scores: benchmark } = await loadBenchmarkScores(benchmarkWorkout.id);
+
+  let score: NormalizedScore | null;
+  let required: RequiredScore | null = null;
   try {
-    userId = await resolveUserIdOrThrow({ userId: q.userId, email: q.email });
+    if (body.target) {
+      required = requiredScore(benchmarkWorkout, benchmark, body.target, user.loadUnit);
+      score = required.score;
+      // Benchmark-scoren kan være importert med felt som ikke passer workouten
+      if (score) assertScoreMatchesType(workout, score);
+    } else {
+      score = typeof body.score === "string" ? parseScoreText(workout, body.score, user.loadUnit) : body.score!;
+      assertScoreMatchesType(workout, score);
+    }
   } catch (e) {
     return reply.code(400).send({ error: (e as Error).message });
   }
 
-  const season = await prisma.season.findUnique({ where: { year } });
-  if (!season) return { totalPoints: 0, completedWorkouts: 0, perWorkout: [] };
-
-  const workouts = await prisma.workout.findMany({
-    where: { seasonId: season.id, competition, division },
-    select: { id: true, scoreType: true },
+  const settings = await getCompetitionSettings(workout.seasonId, workout.competition);
+  const scheme = getPointsScheme(settings.pointsScheme);
+  const simulate = (s: NormalizedScore) => ({
+    score: s,
+    display: formatScore(workout, s, user.loadUnit),
+    ...simulatePlacement(benchmarkWorkout, s, benchmark, scheme, settings.tiePointsRule),
   });
 
-  const userResults = await prisma.userResult.findMany({
-    where: { userId, workoutId: { in: workouts.map((w) => w.id) } },
-  });
+  const attempts = await prisma.userResult.findMany({ where: { userId: user.id, workoutId } });
+  const current = pickCountingResult(workout, attempts);
 
-  let totalPoints = 0;
-  const perWorkout: Array<{ workoutId: string; points: number; beatenCount: number; rank: number }> = [];
+  const season = workout.seasonId ? await prisma.season.findUnique({ where: { id: workout.seasonId } }) : null;
+  const ctx =
+    season && score
+      ? await loadSeasonContext(season.year, workout.competition, benchmarkWorkout.division, benchmarkWorkout.scaling)
+      : null;
 
-  for (const w of workouts) {
-    const ur = userResults.find((r) => r.workoutId === w.id);
-    if (!ur) continue;
+  return {
+    workout: { id: workout.id, name: workout.name, scoreType: workout.scoreType },
+    benchmarkWorkout: { id: benchmarkWorkout.id, division: benchmarkWorkout.division, scaling: benchmarkWorkout.scaling },
+    benchmarkSource,
+    benchmarkTotal: benchmark.length,
+    pointsScheme: scheme.id,
+    tiePointsRule: settings.tiePointsRule,
+    target: body.target ?? null,
+    requirement: required
+      ? {
+        kind: required.requirement,
+        athlete: required.athlete && {
+          score: required.athlete,
+          display: formatScore(workout, required.athlete, user.loadUnit),
+        },
+      }
+      : null,
+    // null ved et mål som ikke trenger noen bestemt score, eller som ikke kan nås
+    simulated: score ? simulate(score) : null,
+    current: current ? { attempt: current.attempt, ...simulate(resultScore(current)) } : null,
+    seasonImpact: ctx && score ? await simulateSeasonImpact(ctx, user.id, workout.name, score, user.loadUnit) : null,
+  };
+});
 
-    const benchmark = await prisma.benchmarkResult.findMany({
-      where: { workoutId: w.id },
-      select: { timeSeconds: true, reps: true, loadKg: true, tiebreakSecs: true },
-    });
+app.get("/summary", async (req, reply) => {
+  const user = requireUser(req, reply);
+  if (!user) return reply;
 
-    const userScore = {
-      timeSeconds: ur.timeSeconds,
-      reps: ur.reps,
-      loadKg: ur.loadKg,
-      tiebreakSecs: ur.tiebreakSecs,
-    };
+  const q = req.query as Partial<{
+    season: string;
+    competition: string;
+    division: string;
+    scaling: string;
+    affiliateId: string;
+    validated: string;
+  }>;
 
-    const beaten = computeBenchmarkBeatenCount(w.scoreType, userScore, benchmark);
-    const rank = computeRankAmongBenchmarkPlusUser(w.scoreType, userScore, benchmark);
-    const points = pointsFromRank(rank);
+  const year = Number(q.season);
+  const competition = CompetitionSchema.parse(q.competition);
+  const { division, scaling } = await resolveDivisionQuery(req, year, q);
+  const validatedOnly = q.validated === "true";
 
-    totalPoints += points;
-    perWorkout.push({ workoutId: w.id, points, beatenCount: beaten, rank });
-  }
+  const userId = user.id;
+  const scope = await resolveAffiliateScope(req, reply, q.affiliateId);
+  if (scope === null) return reply;
+
+  const ctx = await loadSeasonContext(year, competition, division, scaling);
+  if (!ctx) return { totalPoints: 0, completedWorkouts: 0, perWorkout: [] };
+
+  const scopeFilter = { userIds: scope, validatedOnly };
+  const { totals, standings } = await computeSeasonSummary(ctx, userId, scopeFilter, user.loadUnit);
+  const standing = standings.find((s) => s.userId === userId);
 
   return {
     season: year,
     competition,
     division,
-    completedWorkouts: perWorkout.length,
-    totalPoints,
-    perWorkout,
+    scaling,
+    affiliateId: q.affiliateId ?? null,
+    validatedOnly,
+    pointsScheme: ctx.scheme.id,
+    lowerIsBetter: ctx.scheme.lowerIsBetter,
+    tiePointsRule: ctx.settings.tiePointsRule,
+    completedWorkouts: totals.completedWorkouts,
+    missingWorkouts: totals.missingWorkouts,
+    totalPoints: totals.totalPoints,
+    seasonPosition: standing
+      ? { position: standing.position, tied: standing.tied, of: standings.length }
+      : null,
+    perWorkout: totals.perWorkout,
   };
 });
 
-app.get("/leaderboard/workout/:workoutId", async (req, reply) => {
-  const { workoutId } = req.params as { workoutId: string };
-  const q = req.query as Partial<{ limit: string }>;
+// Sesong for sesong (poeng, slått, plassering, percentil) og gjentatte workouts mot forrige gang.
+// Egen progresjon, eller en utøvers hvis du er coach/eier i en affiliate de er medlem av.
+app.get("/progress", async (req, reply) => {
+  const user = requireUser(req, reply);
+  if (!user) return reply;
+
+  const q = req.query as Partial<{ userId: string }>;
+  const userId = q.userId ?? user.id;
+  if (userId !== user.id && !(await reviewableUserIds(user.id)).has(userId)) {
+    return reply.code(403).send({ error: "Not a coach for this athlete" });
+  }
+
+  const progress = await computeUserProgress(userId, loadUnitFor(req));
+  if (!progress) return reply.code(404).send({ error: "User not found" });
+  return { userId, ...progress };
+});
+
+type SeasonLeaderboardQuery = Partial<{
+  season: string;
+  competition: string;
+  division: string;
+  scaling: string;
+  affiliateId: string;
+  validated: string;
+  limit: string;
+  offset: string;
+  around: string;
+  gender: string;
+  country: string;
+}>;
+
+type SeasonLeaderboardParams = {
+  year: number;
+  competition: CompetitionType;
+  division: string;
+  scaling: ScalingLevel;
+  affiliateId: string | null;
+  scope: string[] | undefined;
+  gender: Gender | undefined;
+  country: string | undefined;
+  validatedOnly: boolean;
+  limit: number;
+};
+
+// Sesong, divisjon og feltet plasseringene regnes i; null når svaret er sendt
+async function resolveSeasonLeaderboard(
+  req: FastifyRequest,
+  reply: FastifyReply,
+  q: SeasonLeaderboardQuery,
+): Promise<SeasonLeaderboardParams | null> {
+  const year = Number(q.season);
+  const competition = CompetitionSchema.parse(q.competition);
+  const { division, scaling } = await resolveDivisionQuery(req, year, q);
   const limit = Math.max(1, Math.min(200, Number(q.limit ?? 50)));
 
-  const workout = await prisma.workout.findUnique({ where: { id: workoutId } });
-  if (!workout) return reply.code(404).send({ error: "Workout not found" });
+  if (!(await checkAffiliateAccess(req, reply, q.affiliateId))) return null;
+  const gender = q.gender ? GenderSchema.parse(q.gender) : undefined;
+  const country = q.country ? CountrySchema.parse(q.country) : undefined;
+  const affiliateId = q.affiliateId ?? null;
+  const scope = await seasonScopeUserIds({ affiliateId, gender, country });
 
-  const results = await prisma.userResult.findMany({
-    where: { workoutId },
-    include: { user: { select: { id: true, name: true, email: true } } },
+  const validatedOnly = q.validated === "true";
+  return { year, competition, division, scaling, affiliateId, scope, gender, country, validatedOnly, limit };
+}
+
+// Feltet plasseringene regnes i: affiliatens medlemmer, snevret inn på kjønn/land. Tilgangen er sjekket.
+async function seasonScopeUserIds(
+  params: Pick<SeasonLeaderboardParams, "affiliateId" | "gender" | "country">,
+): Promise<string[] | undefined> {
+  const { affiliateId, gender, country } = params;
+  const scope = affiliateId ? await affiliateScopeUserIds(affiliateId) : undefined;
+  if (!gender && !country) return scope;
+  const users = await prisma.user.findMany({
+    where: { gender, country, ...(scope ? { id: { in: scope } } : {}) },
+    select: { id: true },
   });
+  return users.map((u) => u.id);
+}
 
-  results.sort((a, b) =>
-    compareScores(
-      workout.scoreType,
-      { timeSeconds: a.timeSeconds, reps: a.reps, loadKg: a.loadKg, tiebreakSecs: a.tiebreakSecs },
-      { timeSeconds: b.timeSeconds, reps: b.reps, loadKg: b.loadKg, tiebreakSecs: b.tiebreakSecs },
-    ),
-  );
+/** Siden fra offset, eller med aroundUserId i midten ("hopp til min plassering"); null når brukeren mangler. */
+async function seasonLeaderboardBody(params: SeasonLeaderboardParams, offset: number, aroundUserId?: string) {
+  const { year, competition, division, scaling, limit, validatedOnly } = params;
+  const ctx = await loadSeasonContext(year, competition, division, scaling);
+  if (!ctx) {
+    if (aroundUserId) return null;
+    return { season: year, competition, division, scaling, total: 0, leaderboard: [] };
+  }
+
+  const standings = await computeSeasonStandings(ctx, { userIds: params.scope, validatedOnly });
+  if (aroundUserId) {
+    const index = standings.findIndex((s) => s.userId === aroundUserId);
+    if (index === -1) return null;
+    offset = Math.max(0, index - Math.floor(limit / 2));
+  }
+  const page = standings.slice(offset, offset + limit);
+
+  const users = await prisma.user.findMany({
+    where: { id: { in: page.map((s) => s.userId) } },
+    select: { id: true, name: true, email: true },
+  });
+  const userById = new Map(users.map((u) => [u.id, u]));
 
   return {
-    workout: { id: workout.id, name: workout.name, scoreType: workout.scoreType },
-    leaderboard: results.slice(0, limit).map((r, idx) => ({
-      rank: idx + 1,
-      user: r.user,
-      score: { timeSeconds: r.timeSeconds, reps: r.reps, loadKg: r.loadKg, tiebreakSecs: r.tiebreakSecs },
-      updatedAt: r.createdAt,
+    season: year,
+    competition,
+    division,
+    scaling,
+    affiliateId: params.affiliateId,
+    validatedOnly,
+    gender: params.gender ?? null,
+    country: params.country ?? null,
+    pointsScheme: ctx.scheme.id,
+    lowerIsBetter: ctx.scheme.lowerIsBetter,
+    workouts: ctx.workouts.length,
+    total: standings.length,
+    limit,
+    offset,
+    leaderboard: page.map((s) => ({
+      position: s.position,
+      tied: s.tied,
+      user: userById.get(s.userId) ?? null,
+      totalPoints: s.totalPoints,
+      completedWorkouts: s.completedWorkouts,
     })),
   };
+}
+
+app.get("/leaderboard/season", async (req, reply) => {
+  const q = req.query as SeasonLeaderboardQuery;
+  const params = await resolveSeasonLeaderboard(req, reply, q);
+  if (!params) return reply;
+  const me = q.around === "me" ? requireUser(req, reply) : undefined;
+  if (me === null) return reply;
+
+  const body = await seasonLeaderboardBody(params, Math.max(0, Number(q.offset ?? 0)), me?.id);
+  if (!body) return reply.code(404).send({ error: "No season result for user" });
+  return body;
+});
+
+// Sesong-leaderboardet som Server-Sent Events; oppdateres når et resultat på en av sesongens workouts logges
+app.get("/leaderboard/season/live", async (req, reply) => {
+  const q = req.query as SeasonLeaderboardQuery;
+  if (q.around) return reply.code(400).send({ error: "around støttes ikke for live-leaderboardet" });
+  const params = await resolveSeasonLeaderboard(req, reply, q);
+  if (!params) return reply;
+  const offset = Math.max(0, Number(q.offset ?? 0));
+  const season = await prisma.season.findUnique({ where: { year: params.year } });
+
+  await streamFeed(reply, app.log, {
+    key: [
+      "season",
+      params.year,
+      params.competition,
+      params.division,
+      params.scaling,
+      q.affiliateId,
+      params.gender,
+      params.country,
+      params.validatedOnly,
+      params.limit,
+      offset,
+    ].join(":"),
+    // Brukere fra andre divisjoner kan telle her (variantene matches på navn), så alle divisjoner tas med
+    matches: (e) => e.seasonId === season?.id && e.competition === params.competition && e.scaling === params.scaling,
+    load: async () => {
+      // Medlemskap og profiler kan endres mens strømmen er åpen, så feltet hentes på nytt
+      const body = (await seasonLeaderboardBody({ ...params, scope: await seasonScopeUserIds(params) }, offset))!;
+      return { body, ranks: new Map(body.leaderboard.flatMap((r) => (r.user ? [[r.user.id, r.position]] : []))) };
+    },
+  });
+  return reply;
+});
+
+type WorkoutLeaderboardQuery = Partial<{
+  limit: string;
+  cursor: string;
+  around: string;
+  affiliateId: string;
+  validated: string;
+  division: string;
+  scaling: string;
+  gender: string;
+  country: string;
+}>;
+
+type WorkoutLeaderboardParams = {
+  workout: Workout;
+  filter: WorkoutLeaderboardFilter;
+  affiliateId: string | null;
+  limit: number;
+};
+
+// Workouten (eventuelt varianten i division/scaling) og filtrene; null når svaret er sendt
+async function resolveWorkoutLeaderboard(
+  req: FastifyRequest,
+  reply: FastifyReply,
+  q: WorkoutLeaderboardQuery,
+): Promise<WorkoutLeaderboardParams | null> {
+  const { workoutId } = req.params as { workoutId: string };
+  const limit = Math.max(1, Math.min(200, Number(q.limit ?? 50)));
+
+  let workout = await findVisibleWorkout(req, workoutId);
+  if (!workout) {
+    reply.code(404).send({ error: "Workout not found" });
+    return null;
+  }
+  // Samme workout i en annen divisjon/skalering
+  if (q.division || q.scaling) {
+    workout = await findWorkoutVariant(
+      workout,
+      q.division ? (await getDivisionSchema()).parse(q.division) : workout.division,
+      q.scaling ? ScalingLevelSchema.parse(q.scaling) : workout.scaling,
+    );
+    if (!workout) {
+      reply.code(404).send({ error: "Workout not found in division" });
+      return null;
+    }
+  }
+
+  const scope = await resolveAffiliateScope(req, reply, q.affiliateId);
+  if (scope === null) return null;
+  const filter = {
+    userIds: scope,
+    gender: q.gender ? GenderSchema.parse(q.gender) : undefined,
+    country: q.country ? CountrySchema.parse(q.country) : undefined,
+    validatedOnly: q.validated === "true",
+  };
+  return { workout, filter, affiliateId: q.affiliateId ?? null, limit };
+}
+
+function workoutLeaderboardBody(params: WorkoutLeaderboardParams, page: LeaderboardPage, loadUnit: LoadUnit) {
+  const { workout, filter } = params;
+  return {
+    workout: {
+      id: workout.id,
+      name: workout.name,
+      scoreType: workout.scoreType,
+      division: workout.division,
+      scaling: workout.scaling,
+    },
+    affiliateId: params.affiliateId,
+    validatedOnly: filter.validatedOnly,
+    gender: filter.gender ?? null,
+    country: filter.country ?? null,
+    total: page.total,
+    limit: params.limit,
+    nextCursor: page.nextCursor,
+    prevCursor: page.prevCursor,
+    leaderboard: page.rows.map((r) => {
+      const score = resultScore(r);
+      return {
+        rank: r.rank,
+        tied: r.tieSize > 1,
+        user: { id: r.userId, name: r.userName, email: r.userEmail },
+        score,
+        display: formatScore(workout, score, loadUnit),
+        validationStatus: r.validationStatus,
+        updatedAt: r.createdAt,
+      };
+    }),
+  };
+}
+
+app.get("/leaderboard/workout/:workoutId", async (req, reply) => {
+  const q = req.query as WorkoutLeaderboardQuery;
+  const params = await resolveWorkoutLeaderboard(req, reply, q);
+  if (!params) return reply;
+  const { workout, filter, limit } = params;
+
+  let page: LeaderboardPage | null;
+  if (q.around === "me") {
+    const user = requireUser(req, reply);
+    if (!user) return reply;
+    page = await workoutLeaderboardAround(workout, filter, limit, user.id);
+    if (!page) return reply.code(404).send({ error: "No user result for workout" });
+  } else {
+    let cursor: LeaderboardCursor | null = null;
+    try {
+      cursor = q.cursor ? decodeCursor(q.cursor) : null;
+    } catch (e) {
+      return reply.code(400).send({ error: (e as Error).message });
+    }
+    page = await workoutLeaderboardPage(workout, filter, limit, cursor);
+  }
+
+  return workoutLeaderboardBody(params, page, loadUnitFor(req));
+});
+
+// Toppen av leaderboardet som Server-Sent Events, oppdatert når resultater logges (storskjerm o.l.)
+app.get("/leaderboard/workout/:workoutId/live", async (req, reply) => {
+  const q = req.query as WorkoutLeaderboardQuery;
+  if (q.cursor || q.around) {
+    return reply.code(400).send({ error: "Live-leaderboardet viser toppen; cursor og around støttes ikke" });
+  }
+  const params = await resolveWorkoutLeaderboard(req, reply, q);
+  if (!params) return reply;
+  const { workout, filter, limit } = params;
+  const loadUnit = loadUnitFor(req);
+
+  await streamFeed(reply, app.log, {
+    key: ["workout", workout.id, q.affiliateId, filter.gender, filter.country, filter.validatedOnly, limit, loadUnit]
+      .join(":"),
+    matches: (e) => e.workoutId === workout.id,
+    load: async () => {
+      // Medlemskap kan endres mens strømmen er åpen, så affiliate-scopet hentes på nytt
+      const current = params.affiliateId
+        ? { ...filter, userIds: await affiliateScopeUserIds(params.affiliateId) }
+        : filter;
+      const body = workoutLeaderboardBody(params, await workoutLeaderboardPage(workout, current, limit, null), loadUnit);
+      return { body, ranks: new Map(body.leaderboard.map((r) => [r.user.id, r.rank])) };
+    },
+  });
+  return reply;
 });
 
 app.get("/benchmark/workout/:workoutId", async (req, reply) => {
   const { workoutId } = req.params as { workoutId: string };
 
-  const workout = await prisma.workout.findUnique({ where: { id: workoutId } });
+  const workout = await findVisibleWorkout(req, workoutId);
   if (!workout) return reply.code(404).send({ error: "Workout not found" });
 
   const rows = await prisma.benchmarkResult.findMany({
     where: { workoutId },
-    include: { athlete: { select: { rank: true, name: true } } },
+    include: { athlete: { select: { rank: true, name: true, athleteId: true } } },
   });
 
+  const byScore = (a: NormalizedScore, b: NormalizedScore) => compareScores(workout, a, b);
+
+  if (rows.length === 0) {
+    // Uten Top 40 (bibliotek-workouts): godkjente community-bidrag, rangert på score
+    const community = await prisma.communityBenchmark.findMany({ where: { workoutId, approvedAt: { not: null } } });
+    community.sort(byScore);
+    const placements = competitionRanks(community, byScore);
+
+    return {
+      workout: { id: workout.id, name: workout.name, scoreType: workout.scoreType },
+      source: community.length > 0 ? "COMMUNITY" : null,
+      benchmark: community.map((c, idx) => {
+        const score = resultScore(c);
+        return {
+          rank: placements[idx].rank,
+          workoutRank: placements[idx].rank,
+          tied: placements[idx].tiedWith > 0,
+          name: c.athleteName,
+          sourceUrl: c.sourceUrl,
+          score,
+          display: formatScore(workout, score, loadUnitFor(req)),
+        };
+      }),
+    };
+  }
+
+  // workoutRank: plassering på akkurat denne workouten (delt ved lik score); rank er totalplasseringen
+  const sortedByScore = [...rows].sort(byScore);
+  const placements = competitionRanks(sortedByScore, byScore);
+  const workoutRank = new Map(sortedByScore.map((r, idx) => [r.id, placements[idx]]));
+
   rows.sort((a, b) => a.athlete.rank - b.athlete.rank);
 
   return {
     workout: { id: workout.id, name: workout.name, scoreType: workout.scoreType },
-    benchmark: rows.map((r) => ({
-      rank: r.athlete.rank,
-      name: r.athlete.name,
-      score: {
+    source: "TOP40",
+    benchmark: rows.map((r) => {
+      const score = {
         timeSeconds: r.timeSeconds ?? null,
         reps: r.reps ?? null,
         loadKg: r.loadKg ?? null,
         tiebreakSecs: r.tiebreakSecs ?? null,
+      };
+      const placement = workoutRank.get(r.id)!;
+      return {
+        rank: r.athlete.rank,
+        workoutRank: placement.rank,
+        tied: placement.tiedWith > 0,
+        athleteId: r.athlete.athleteId,
+        name: r.athlete.name,
+        score,
+        display: formatScore(workout, score, loadUnitFor(req)),
+      };
+    }),
+  };
+});
+
+// Én utøver på tvers av sesonger; workoutRank er plasseringen blant alle benchmark-resultatene på workouten
+app.get("/athletes/:athleteId", async (req, reply) => {
+  const { athleteId } = req.params as { athleteId: string };
+
+  const athlete = await prisma.athlete.findUnique({
+    where: { id: athleteId },
+    include: { placements: { include: { season: true, results: { include: { workout: true } } } } },
+  });
+  if (!athlete) return reply.code(404).send({ error: "Athlete not found" });
+
+  const field = await prisma.benchmarkResult.findMany({
+    where: { workoutId: { in: athlete.placements.flatMap((p) => p.results.map((r) => r.workoutId)) } },
+    select: { workoutId: true, athleteId: true, timeSeconds: true, reps: true, loadKg: true, tiebreakSecs: true },
+  });
+
+  const placements = [...athlete.placements].sort(
+    (a, b) => a.season.year - b.season.year || a.competition.localeCompare(b.competition),
+  );
+
+  return {
+    athlete: {
+      id: athlete.id,
+      name: athlete.name,
+      country: athlete.country,
+      affiliate: athlete.affiliate,
+      externalId: athlete.externalId,
+    },
+    seasons: placements.map((p) => ({
+      season: p.season.year,
+      competition: p.competition,
+      division: p.division,
+      scaling: p.scaling,
+      rank: p.rank,
+      name: p.name,
+      results: [...p.results]
+        .sort((a, b) => a.workout.createdAt.getTime() - b.workout.createdAt.getTime())
+        .map((r) => {
+          const score = resultScore(r);
+          const others = field.filter((f) => f.workoutId === r.workoutId && f.athleteId !== p.id);
+          const placement = computePlacementAmongBenchmarkPlusUser(r.workout, score, others);
+          return {
+            workoutId: r.workoutId,
+            name: r.workout.name,
+            score,
+            display: formatScore(r.workout, score, loadUnitFor(req)),
+            workoutRank: placement.rank,
+            tied: placement.tiedWith > 0,
+            of: others.length + 1,
+          };
+        }),
+    })),
+  };
+});
+
+// --- Workout-bibliotek (BENCHMARK/CUSTOM/HERO, uten sesong) ---
+
+function libraryWorkoutData(body: LibraryWorkoutInput, division: string, scaling: ScalingLevel) {
+  const structure = body.structure ?? null;
+  const derived = structure ? structureDefaults(structure) : null;
+  return {
+    competition: body.competition,
+    division,
+    scaling,
+    name: body.name,
+    description: body.description || (structure ? renderDescription(structure, division) : ""),
+    scoreType: body.scoreType,
+    timeCapSeconds: body.timeCapSeconds ?? derived?.timeCapSeconds ?? null,
+    totalReps: body.totalReps ?? derived?.totalReps ?? null,
+    tiebreakPolicy: body.tiebreakPolicy ?? defaultTiebreakPolicy(body.scoreType),
+    ...(body.resultPolicy ? { resultPolicy: body.resultPolicy } : {}),
+    ...(structure ? { structure } : {}),
+  };
+}
+
+app.get("/library/workouts", async (req) => {
+  const q = req.query as Partial<{ competition: string; q: string }>;
+  const competition = q.competition ? LibraryCompetitionSchema.parse(q.competition) : undefined;
+  const search = q.q?.trim();
+
+  const workouts = await prisma.workout.findMany({
+    where: {
+      AND: [
+        await visibleWorkoutsWhere(req.authUser?.id ?? null),
+        { seasonId: null, competition: competition ?? { in: [...LIBRARY_COMPETITIONS] } },
+        search ? { name: { contains: search, mode: "insensitive" } } : {},
+      ],
+    },
+    orderBy: [{ competition: "asc" }, { name: "asc" }],
+  });
+
+  return { workouts: workouts.map(withDisplayDescription) };
+});
+
+app.get("/library/workouts/:workoutId", async (req, reply) => {
+  const { workoutId } = req.params as { workoutId: string };
+
+  const workout = await findVisibleWorkout(req, workoutId);
+  if (!workout || !isLibraryWorkout(workout)) return reply.code(404).send({ error: "Workout not found" });
+
+  const { source, scores } = await loadBenchmarkScores(workout.id);
+  return {
+    workout: withDisplayDescription(workout),
+    canEdit: req.authUser ? await canEditWorkout(req.authUser.id, workout) : false,
+    benchmark: { source, athletes: scores.length },
+  };
+});
+
+app.post("/library/workouts", async (req, reply) => {
+  const user = requireUser(req, reply);
+  if (!user) return reply;
+
+  const body = LibraryWorkoutSchema.parse(req.body);
+  if (body.affiliateId && !(await requireAffiliateAccess(reply, user.id, body.affiliateId, ["OWNER", "COACH"]))) {
+    return reply;
+  }
+  const { division, scaling } = await resolveDivisionQuery(req, new Date().getFullYear(), body);
+
+  const workout = await prisma.workout.create({
+    data: {
+      ...libraryWorkoutData(body, division, scaling),
+      ownerUserId: body.affiliateId ? null : user.id,
+      ownerAffiliateId: body.affiliateId ?? null,
+    },
+  });
+
+  return reply.code(201).send({ workout });
+});
+
+app.put("/library/workouts/:workoutId", async (req, reply) => {
+  const user = requireUser(req, reply);
+  if (!user) return reply;
+
+  const { workoutId } = req.params as { workoutId: string };
+  const body = LibraryWorkoutUpdateSchema.parse(req.body);
+
+  const workout = await findVisibleWorkout(req, workoutId);
+  if (!workout || !isLibraryWorkout(workout)) return reply.code(404).send({ error: "Workout not found" });
+  if (!(await canEditWorkout(user.id, workout))) {
+    return reply.code(403).send({ error: "Not allowed to edit this workout" });
+  }
+
+  const scoreType = body.scoreType ?? workout.scoreType;
+  const structure = body.structure !== undefined ? body.structure : readStructure(workout.structure);
+  // Ny struktur gir nye standardverdier for felt som ikke sendes med
+  const derived = body.structure ? structureDefaults(body.structure) : null;
+  const timeCapSeconds =
+    body.timeCapSeconds !== undefined ? body.timeCapSeconds : (derived?.timeCapSeconds ?? workout.timeCapSeconds);
+  if (timeCapSeconds != null && scoreType !== "TIME" && scoreType !== "TIME_REPS") {
+    return reply.code(400).send({ error: "timeCapSeconds kan bare brukes med scoreType TIME eller TIME_REPS" });
+  }
+  if (!structureMatchesScoreType({ structure, scoreType })) {
+    return reply
+      .code(400)
+      .send({ error: `structure.format ${structure!.format} passer ikke med scoreType ${scoreType}` });
+  }
+  const description = body.description ?? workout.description;
+
+  const scoreTypeChanged = scoreType !== workout.scoreType;
+  if (scoreTypeChanged && (await hasLoggedScores(workoutId))) {
+    return reply.code(409).send({ error: "Kan ikke endre scoreType på en workout som har resultater" });
+  }
+
+  const updated = await prisma.$transaction(async (tx) => {
+    const saved = await tx.workout.update({
+      where: { id: workoutId },
+      data: {
+        ...body,
+        timeCapSeconds,
+        totalReps: body.totalReps !== undefined ? body.totalReps : (derived?.totalReps ?? workout.totalReps),
+        description: description || (structure ? renderDescription(structure, workout.division) : ""),
+        structure: body.structure === null ? Prisma.DbNull : body.structure,
+        // Ny scoreType gir ny standard-tiebreak med mindre den sendes med
+        ...(scoreTypeChanged && !body.tiebreakPolicy ? { tiebreakPolicy: defaultTiebreakPolicy(scoreType) } : {}),
+      },
+    });
+    // Sorteringsnøkkelen avhenger av scoreType og tiebreak (community-scores kan finnes uten brukerresultater)
+    if (scoreTypeChanged || saved.tiebreakPolicy !== workout.tiebreakPolicy) await refreshSortKeys(tx, saved);
+    return saved;
+  });
+  if (scoreTypeChanged || updated.tiebreakPolicy !== workout.tiebreakPolicy) invalidateBenchmarks([workoutId]);
+
+  return { workout: updated };
+});
+
+app.delete("/library/workouts/:workoutId", async (req, reply) => {
+  const user = requireUser(req, reply);
+  if (!user) return reply;
+
+  const { workoutId } = req.params as { workoutId: string };
+
+  const workout = await findVisibleWorkout(req, workoutId);
+  if (!workout || !isLibraryWorkout(workout)) return reply.code(404).send({ error: "Workout not found" });
+  if (!(await canEditWorkout(user.id, workout))) {
+    return reply.code(403).send({ error: "Not allowed to edit this workout" });
+  }
+  if ((await hasLoggedScores(workoutId)) || (await prisma.benchmarkResult.count({ where: { workoutId } })) > 0) {
+    return reply.code(409).send({ error: "Kan ikke slette en workout som har resultater" });
+  }
+
+  // Workouts som er re-tester av denne blir stående, bare uten koblingen
+  await prisma.$transaction([
+    prisma.workout.updateMany({ where: { repeatOfId: workoutId }, data: { repeatOfId: null } }),
+    prisma.scorePercentile.deleteMany({ where: { workoutId } }),
+    prisma.workout.delete({ where: { id: workoutId } }),
+  ]);
+
+  return reply.code(204).send();
+});
+
+// Community-benchmark: kjente scores (f.eks. fra nettet) som sammenligningsgrunnlag der Top 40 ikke finnes.
+// Bidrag på offentlige workouts godkjennes av admin; på egne workouts gjelder de med en gang.
+app.post("/library/workouts/:workoutId/community-benchmarks", async (req, reply) => {
+  const user = requireUser(req, reply);
+  if (!user) return reply;
+
+  const { workoutId } = req.params as { workoutId: string };
+  const body = CommunityBenchmarkSchema.parse(req.body);
+
+  const workout = await findVisibleWorkout(req, workoutId);
+  if (!workout || !isLibraryWorkout(workout)) return reply.code(404).send({ error: "Workout not found" });
+
+  let score: NormalizedScore;
+  try {
+    score = typeof body.score === "string" ? parseScoreText(workout, body.score, user.loadUnit) : body.score;
+    assertScoreMatchesType(workout, score);
+  } catch (e) {
+    return reply.code(400).send({ error: (e as Error).message });
+  }
+
+  const entry = await prisma.communityBenchmark.create({
+    data: {
+      workoutId,
+      athleteName: body.athleteName,
+      sourceUrl: body.sourceUrl ?? null,
+      submittedById: user.id,
+      approvedAt: (await canEditWorkout(user.id, workout)) ? new Date() : null,
+      timeSeconds: score.timeSeconds ?? null,
+      reps: score.reps ?? null,
+      loadKg: score.loadKg ?? null,
+      tiebreakSecs: score.tiebreakSecs ?? null,
+      sortKey: scoreSortKey(workout, score),
+    },
+  });
+  if (entry.approvedAt) invalidateBenchmarks([workoutId]);
+
+  return reply.code(201).send({ entry, display: formatScore(workout, score, user.loadUnit) });
+});
+
+app.post("/affiliates", async (req, reply) => {
+  const user = requireUser(req, reply);
+  if (!user) return reply;
+
+  const body = AffiliateCreateSchema.parse(req.body);
+  // En boks i en gruppe kan bare opprettes av gruppens eier
+  if (body.parentId) {
+    const parent = await requireAffiliateAccess(reply, user.id, body.parentId, ["OWNER"]);
+    if (!parent) return reply;
+    if (parent.parentId) return reply.code(400).send({ error: "En boks kan ikke ha egne bokser" });
+  }
+
+  const affiliate = await prisma.affiliate.create({
+    data: {
+      name: body.name,
+      parentId: body.parentId ?? null,
+      inviteCode: generateInviteCode(),
+      memberships: { create: { userId: user.id, role: "OWNER" } },
+    },
+  });
+
+  return reply.code(201).send({ affiliate });
+});
+
+app.get("/affiliates", async (req, reply) => {
+  const user = requireUser(req, reply);
+  if (!user) return reply;
+
+  const memberships = await prisma.affiliateMembership.findMany({
+    where: { userId: user.id },
+    include: { affiliate: { select: { id: true, name: true, parentId: true } } },
+    orderBy: { createdAt: "asc" },
+  });
+
+  return { affiliates: memberships.map((m) => ({ ...m.affiliate, role: m.role })) };
+});
+
+app.get("/affiliates/:affiliateId", async (req, reply) => {
+  const user = requireUser(req, reply);
+  if (!user) return reply;
+
+  const { affiliateId } = req.params as { affiliateId: string };
+  const affiliate = await requireAffiliateAccess(reply, user.id, affiliateId);
+  if (!affiliate) return reply;
+
+  const [members, boxes, staff] = await Promise.all([
+    prisma.affiliateMembership.findMany({
+      where: { affiliateId },
+      include: { user: { select: { id: true, name: true, email: true } } },
+      orderBy: { createdAt: "asc" },
+    }),
+    prisma.affiliate.findMany({ where: { parentId: affiliateId }, select: { id: true, name: true } }),
+    prisma.affiliateMembership.count({
+      where: {
+        userId: user.id,
+        role: { in: ["OWNER", "COACH"] },
+        affiliateId: { in: [affiliate.id, ...(affiliate.parentId ? [affiliate.parentId] : [])] },
       },
+    }),
+  ]);
+
+  return {
+    affiliate: {
+      id: affiliate.id,
+      name: affiliate.name,
+      parentId: affiliate.parentId,
+      // Invitasjonskoden vises bare for eier/coach
+      inviteCode: staff > 0 ? affiliate.inviteCode : null,
+    },
+    boxes,
+    members: members.map((m) => ({ user: m.user, role: m.role, joinedAt: m.createdAt })),
+  };
+});
+
+app.post("/affiliates/join", async (req, reply) => {
+  const user = requireUser(req, reply);
+  if (!user) return reply;
+
+  const body = AffiliateJoinSchema.parse(req.body);
+  const affiliate = await prisma.affiliate.findUnique({ where: { inviteCode: body.inviteCode } });
+  if (!affiliate) return reply.code(404).send({ error: "Ugyldig invitasjonskode" });
+
+  const membership = await prisma.affiliateMembership.upsert({
+    where: { affiliateId_userId: { affiliateId: affiliate.id, userId: user.id } },
+    update: {},
+    create: { affiliateId: affiliate.id, userId: user.id },
+  });
+
+  return { affiliate: { id: affiliate.id, name: affiliate.name }, role: membership.role };
+});
+
+app.post("/affiliates/:affiliateId/invite-code", async (req, reply) => {
+  const user = requireUser(req, reply);
+  if (!user) return reply;
+
+  const { affiliateId } = req.params as { affiliateId: string };
+  if (!(await requireAffiliateAccess(reply, user.id, affiliateId, ["OWNER", "COACH"]))) return reply;
+
+  const affiliate = await prisma.affiliate.update({
+    where: { id: affiliateId },
+    data: { inviteCode: generateInviteCode() },
+  });
+  return { inviteCode: affiliate.inviteCode };
+});
+
+app.put("/affiliates/:affiliateId/members/:userId", async (req, reply) => {
+  const user = requireUser(req, reply);
+  if (!user) return reply;
+
+  const { affiliateId, userId } = req.params as { affiliateId: string; userId: string };
+  if (!(await requireAffiliateAccess(reply, user.id, affiliateId, ["OWNER"]))) return reply;
+
+  const body = AffiliateRoleUpdateSchema.parse(req.body);
+  const membership = await prisma.affiliateMembership.findUnique({
+    where: { affiliateId_userId: { affiliateId, userId } },
+  });
+  if (!membership) return reply.code(404).send({ error: "Member not found" });
+
+  if (membership.role === "OWNER" && body.role !== "OWNER") {
+    const owners = await prisma.affiliateMembership.count({ where: { affiliateId, role: "OWNER" } });
+    if (owners <= 1) return reply.code(409).send({ error: "Affiliaten må ha minst én eier" });
+  }
+
+  const updated = await prisma.affiliateMembership.update({ where: { id: membership.id }, data: { role: body.role } });
+  return { userId, role: updated.role };
+});
+
+// Eier/coach kan fjerne utøvere; alle kan melde seg ut selv
+app.delete("/affiliates/:affiliateId/members/:userId", async (req, reply) => {
+  const user = requireUser(req, reply);
+  if (!user) return reply;
+
+  const { affiliateId, userId } = req.params as { affiliateId: string; userId: string };
+  const membership = await prisma.affiliateMembership.findUnique({
+    where: { affiliateId_userId: { affiliateId, userId } },
+  });
+  if (!membership) return reply.code(404).send({ error: "Member not found" });
+
+  if (userId !== user.id) {
+    const roles: AffiliateRole[] = membership.role === "ATHLETE" ? ["OWNER", "COACH"] : ["OWNER"];
+    if (!(await requireAffiliateAccess(reply, user.id, affiliateId, roles))) return reply;
+  }
+  if (membership.role === "OWNER") {
+    const owners = await prisma.affiliateMembership.count({ where: { affiliateId, role: "OWNER" } });
+    if (owners <= 1) return reply.code(409).send({ error: "Affiliaten må ha minst én eier" });
+  }
+
+  await prisma.affiliateMembership.delete({ where: { id: membership.id } });
+  return { ok: true };
+});
+
+// Køen av resultater som venter på coach i affiliaten (og boksene under den)
+app.get("/affiliates/:affiliateId/results/pending", async (req, reply) => {
+  const user = requireUser(req, reply);
+  if (!user) return reply;
+
+  const { affiliateId } = req.params as { affiliateId: string };
+  if (!(await requireAffiliateAccess(reply, user.id, affiliateId, ["OWNER", "COACH"]))) return reply;
+
+  const userIds = [...(await reviewableUserIds(user.id, affiliateId))].filter((id) => id !== user.id);
+  const results = await prisma.userResult.findMany({
+    where: { userId: { in: userIds }, validationStatus: "PENDING" },
+    orderBy: { createdAt: "asc" },
+    take: 200,
+    include: {
+      user: { select: { id: true, name: true, email: true } },
+      workout: true,
+    },
+  });
+
+  return {
+    pending: results.map(({ workout, user: athlete, ...r }) => ({
+      id: r.id,
+      user: athlete,
+      workout: { id: workout.id, name: workout.name, scoreType: workout.scoreType },
+      attempt: r.attempt,
+      display: formatScore(workout, resultScore(r), user.loadUnit),
+      judgeName: r.judgeName,
+      videoUrl: r.videoUrl,
+      note: r.note,
+      createdAt: r.createdAt,
     })),
   };
 });
 
+/**
+ * Gymmets snitt på en workout mot Top 40. For en gruppe sammenlignes i tillegg hver boks
+ * (cross-box view).
+ */
+app.get("/affiliates/:affiliateId/benchmark/workout/:workoutId", async (req, reply) => {
+  const user = requireUser(req, reply);
+  if (!user) return reply;
+
+  const { affiliateId, workoutId } = req.params as { affiliateId: string; workoutId: string };
+  const affiliate = await requireAffiliateAccess(reply, user.id, affiliateId);
+  if (!affiliate) return reply;
+
+  const workout = await findVisibleWorkout(req, workoutId);
+  if (!workout) return reply.code(404).send({ error: "Workout not found" });
+
+  const { source: benchmarkSource, scores: benchmark } = await loadBenchmarkScores(workoutId);
+  const settings = await getCompetitionSettings(workout.seasonId, workout.competition);
+  const scheme = getPointsScheme(settings.pointsScheme);
+
+  const boxes = await prisma.affiliate.findMany({ where: { parentId: affiliateId }, select: { id: true, name: true } });
+  const groups = [{ id: affiliate.id, name: affiliate.name }, ...boxes];
+
+  const summaries = await Promise.all(
+    groups.map(async (g) => {
+      const userIds = await affiliateScopeUserIds(g.id);
+      const results = countingResults(
+        [workout],
+        await prisma.userResult.findMany({ where: { workoutId, userId: { in: userIds } } }),
+      );
+      const scores = results.map(resultScore);
+      const points = scores.map((score) => {
+        const placement = computePlacementAmongBenchmarkPlusUser(workout, score, benchmark);
+        return pointsForPlacement(scheme, placement, settings.tiePointsRule);
+      });
+      const beaten = scores.map((score) => computeBenchmarkBeatenCount(workout, score, benchmark));
+      const mean = (xs: number[]) =>
+        xs.length ? Math.round((xs.reduce((sum, x) => sum + x, 0) / xs.length) * 10) / 10 : null;
+
+      return {
+        affiliate: g,
+        athletes: results.length,
+        averageScore: averageScore(workout, scores, user.loadUnit),
+        averagePoints: mean(points),
+        averageBeatenCount: mean(beaten),
+      };
+    }),
+  );
+
+  return {
+    workout: { id: workout.id, name: workout.name, scoreType: workout.scoreType },
+    pointsScheme: scheme.id,
+    benchmark: {
+      source: benchmarkSource,
+      athletes: benchmark.length,
+      averageScore: averageScore(workout, benchmark, user.loadUnit),
+    },
+    gym: summaries[0],
+    boxes: summaries.slice(1),
+  };
+});
+
+app.post("/admin/import/benchmark", async (req, reply) => {
+  if (!requireAdmin(req, reply)) return reply;
+
+  const body = BenchmarkImportSchema.parse(req.body);
+  const report = await importBenchmark(prisma, body);
+
+  if (report.errors.length > 0 && !report.dryRun) return reply.code(400).send(report);
+  return report;
+});
+
+app.put("/admin/divisions/:code", async (req, reply) => {
+  if (!requireAdmin(req, reply)) return reply;
+
+  const code = DivisionCodeSchema.parse((req.params as { code: string }).code);
+  const body = DivisionUpsertSchema.parse(req.body);
+
+  const division = await prisma.division.upsert({
+    where: { code },
+    update: body,
+    create: { code, ...body },
+  });
+  invalidateDivisions();
+
+  return { division };
+});
+
+app.put("/admin/competition-config", async (req, reply) => {
+  if (!requireAdmin(req, reply)) return reply;
+
+  const body = CompetitionConfigSchema.parse(req.body);
+  const season = await prisma.season.findUnique({ where: { year: body.season } });
+  if (!season) return reply.code(404).send({ error: "Season not found" });
+
+  const settings = { tiePointsRule: body.tiePointsRule, pointsScheme: body.pointsScheme };
+  const config = await prisma.competitionConfig.upsert({
+    where: { seasonId_competition: { seasonId: season.id, competition: body.competition } },
+    update: settings,
+    create: { seasonId: season.id, competition: body.competition, ...settings },
+  });
+
+  return { config };
+});
+
+app.put("/admin/workouts/:workoutId/result-policy", async (req, reply) => {
+  if (!requireAdmin(req, reply)) return reply;
+
+  const { workoutId } = req.params as { workoutId: string };
+  const body = ResultPolicyUpdateSchema.parse(req.body);
+
+  const workout = await prisma.workout.findUnique({ where: { id: workoutId } });
+  if (!workout) return reply.code(404).send({ error: "Workout not found" });
+
+  const updated = await prisma.workout.update({ where: { id: workoutId }, data: { resultPolicy: body.resultPolicy } });
+  // Et annet forsøk kan telle nå, så live-leaderboardene må regnes ut på nytt
+  if (updated.resultPolicy !== workout.resultPolicy) publishWorkoutChange(updated);
+  return { workoutId, resultPolicy: updated.resultPolicy };
+});
+
+// Kobler alle divisjonsvariantene av workouten til varianten av originalen i samme divisjon og skalering
+app.put("/admin/workouts/:workoutId/repeat-of", async (req, reply) => {
+  if (!requireAdmin(req, reply)) return reply;
+
+  const { workoutId } = req.params as { workoutId: string };
+  const body = RepeatOfUpdateSchema.parse(req.body);
+
+  const workout = await prisma.workout.findUnique({ where: { id: workoutId }, include: { season: true } });
+  if (!workout) return reply.code(404).send({ error: "Workout not found" });
+
+  const original = body.repeatOfWorkoutId
+    ? await prisma.workout.findUnique({ where: { id: body.repeatOfWorkoutId }, include: { season: true } })
+    : null;
+  if (body.repeatOfWorkoutId) {
+    if (!original) return reply.code(404).send({ error: "Original workout not found" });
+    if (!original.season || !workout.season || original.season.year >= workout.season.year) {
+      return reply.code(400).send({ error: "Originalen må være fra en tidligere sesong" });
+    }
+    if (original.scoreType !== workout.scoreType) {
+      return reply.code(400).send({ error: "Originalen har en annen scoreType" });
+    }
+  }
+
+  const variants = await prisma.workout.findMany({
+    where: { seasonId: workout.seasonId, competition: workout.competition, name: workout.name },
+  });
+  let linked = 0;
+  for (const v of variants) {
+    const repeatOf = original ? await findWorkoutVariant(original, v.division, v.scaling) : null;
+    await prisma.workout.update({ where: { id: v.id }, data: { repeatOfId: repeatOf?.id ?? null } });
+    if (repeatOf) linked += 1;
+  }
+
+  return { workoutId, repeatOfWorkoutId: original?.id ?? null, variants: variants.length, linked };
+});
+
+app.put("/admin/workouts/:workoutId/distribution", async (req, reply) => {
+  if (!requireAdmin(req, reply)) return reply;
+
+  const { workoutId } = req.params as { workoutId: string };
+  const body = DistributionSchema.parse(req.body);
+
+  const workout = await prisma.workout.findUnique({ where: { id: workoutId } });
+  if (!workout) return reply.code(404).send({ error: "Workout not found" });
+
+  let points: Breakpoint[];
+  try {
+    points = parseDistribution(workout, body);
+  } catch (e) {
+    return reply.code(400).send({ error: (e as Error).message });
+  }
+
+  await prisma.$transaction((tx) => replaceDistribution(tx, workoutId, body.fieldSize, points));
+
+  return {
+    workoutId,
+    fieldSize: body.fieldSize,
+    percentiles: points.map((p) => ({ topPercent: p.topPercent, display: formatScore(workout, p) })),
+  };
+});
+
+// Offentlige bibliotek-workouts (Fran, Grace, Murph, ...): uten eier, synlige for alle
+app.post("/admin/library/workouts", async (req, reply) => {
+  if (!requireAdmin(req, reply)) return reply;
+
+  const body = LibraryWorkoutSchema.parse(req.body);
+  if (body.affiliateId) return reply.code(400).send({ error: "Offentlige workouts kan ikke eies av en affiliate" });
+  const { division, scaling } = await resolveDivisionQuery(req, new Date().getFullYear(), body);
+
+  const workout = await prisma.workout.create({ data: libraryWorkoutData(body, division, scaling) });
+  return reply.code(201).send({ workout });
+});
+
+app.put("/admin/community-benchmarks/:entryId/approve", async (req, reply) => {
+  if (!requireAdmin(req, reply)) return reply;
+
+  const { entryId } = req.params as { entryId: string };
+  const entry = await prisma.communityBenchmark.findUnique({ where: { id: entryId } });
+  if (!entry) return reply.code(404).send({ error: "Community benchmark not found" });
+
+  const approved = await prisma.communityBenchmark.update({
+    where: { id: entryId },
+    data: { approvedAt: entry.approvedAt ?? new Date() },
+  });
+  invalidateBenchmarks([approved.workoutId]);
+  return { entry: approved };
+});
+
+// Claim-kode til eieren av en gammel konto uten email; gis videre utenom appen (f.eks. på gymmet)
+app.post("/admin/users/claim-code", async (req, reply) => {
+  if (!requireAdmin(req, reply)) return reply;
+
+  const body = ClaimCodeRequestSchema.parse(req.body);
+  const user = await prisma.user.findUnique({ where: { email: normalizeIdentifier(body.identifier) } });
+  if (!user) return reply.code(404).send({ error: "User not found" });
+  if (user.claimedAt) return reply.code(409).send({ error: "Kontoen er allerede registrert" });
+
+  const { code, expiresAt } = await issueClaimCode(user.id);
+  return { userId: user.id, claimCode: code, expiresAt };
+});
+
 async function main() {
   await app.register(cors, {
     origin: true,
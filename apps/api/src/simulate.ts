@@ -0,0 +1,206 @@
+import type { LoadUnit, TiePointsRule, UserResult } from "@prisma/client";
+import { pointsForPlacement, type PointsScheme } from "./points.ts";
+import {
+  compareScores,
+  computeBenchmarkBeatenCount,
+  computePlacementAmongBenchmarkPlusUser,
+  isCapped,
+  scoreSortKey,
+  type NormalizedScore,
+  type ScoringRules,
+} from "./scoring.ts";
+import {
+  computeSeasonStandings,
+  computeSeasonTotals,
+  loadSeasonResults,
+  rankStandings,
+  type SeasonContext,
+  type SeasonStanding,
+  type SeasonWorkoutScore,
+} from "./season.ts";
+import { nextLoadStep } from "./units.ts";
+
+// Hva-om: ingenting her lagrer noe, alt regnes på en tenkt score.
+
+export type SimulatedPlacement = {
+  beatenCount: number;
+  rank: number;
+  tiedWith: number;
+  points: number;
+};
+
+export function simulatePlacement(
+  rules: ScoringRules,
+  score: NormalizedScore,
+  benchmark: NormalizedScore[],
+  scheme: PointsScheme,
+  tiePointsRule: TiePointsRule,
+): SimulatedPlacement {
+  const { rank, tiedWith } = computePlacementAmongBenchmarkPlusUser(rules, score, benchmark);
+  return {
+    beatenCount: computeBenchmarkBeatenCount(rules, score, benchmark),
+    rank,
+    tiedWith,
+    points: pointsForPlacement(scheme, { rank, tiedWith }, tiePointsRule),
+  };
+}
+
+export type SimulationTarget = { beat?: number; rank?: number };
+
+// ANY: hvilken som helst score holder; BEAT: bedre enn athlete; MATCH: minst like god som athlete
+export type RequiredScore = {
+  requirement: "ANY" | "BEAT" | "MATCH";
+  athlete: NormalizedScore | null;
+  // Scoren som holder akkurat; null ved ANY, eller når athlete ikke kan slås (f.eks. alle reps på REPS)
+  score: NormalizedScore | null;
+};
+
+/**
+ * Scoren som trengs for å slå N benchmark-utøvere eller nå plass R blant benchmark + brukeren.
+ * Slå N: bedre enn den N-te svakeste. Plass R: like god som den R-te beste (delt plass R holder).
+ */
+export function requiredScore(
+  rules: ScoringRules,
+  benchmark: NormalizedScore[],
+  target: SimulationTarget,
+  loadUnit: LoadUnit,
+): RequiredScore {
+  const sorted = [...benchmark].sort((a, b) => compareScores(rules, a, b));
+
+  if (target.beat !== undefined) {
+    if (target.beat > sorted.length) throw new Error(`Benchmarken har bare ${sorted.length} utøvere`);
+    if (target.beat === 0) return { requirement: "ANY", athlete: null, score: null };
+    const athlete = sorted[sorted.length - target.beat];
+    return { requirement: "BEAT", athlete, score: nextBetterScore(rules, athlete, loadUnit) };
+  }
+
+  const rank = target.rank!;
+  if (rank > sorted.length + 1) throw new Error(`Plass ${rank} finnes ikke; feltet har ${sorted.length + 1} plasser`);
+  if (rank === sorted.length + 1) return { requirement: "ANY", athlete: null, score: null };
+  const athlete = sorted[rank - 1];
+  return { requirement: "MATCH", athlete, score: athlete };
+}
+
+/**
+ * Den svakeste scoren som er bedre enn s på hovedscoren: ett sekund raskere, én rep til
+ * eller ett vektsteg opp i brukerens enhet. Capped TIME som mangler siste rep blir fullført på cap.
+ */
+export function nextBetterScore(rules: ScoringRules, s: NormalizedScore, loadUnit: LoadUnit): NormalizedScore | null {
+  const next = ((): NormalizedScore | null => {
+    switch (rules.scoreType) {
+      case "TIME":
+        if (isCapped(rules.scoreType, s)) {
+          if (rules.totalReps != null && s.reps! + 1 >= rules.totalReps) return { timeSeconds: rules.timeCapSeconds };
+          return { reps: s.reps! + 1 };
+        }
+        return s.timeSeconds! > 1 ? { timeSeconds: s.timeSeconds! - 1 } : null;
+      case "REPS":
+        return rules.totalReps != null && s.reps! >= rules.totalReps ? null : { reps: s.reps! + 1 };
+      case "TIME_REPS":
+        if (rules.totalReps == null || s.reps! < rules.totalReps) return { reps: s.reps! + 1 };
+        // Alle reps: bare tiden kan slå den
+        return s.timeSeconds != null && s.timeSeconds > 1 ? { reps: s.reps, timeSeconds: s.timeSeconds - 1 } : null;
+      case "LOAD":
+        return { loadKg: nextLoadStep(s.loadKg!, loadUnit) };
+    }
+  })();
+  return next && compareScores(rules, next, s) < 0 ? next : null;
+}
+
+export type SeasonSnapshot = {
+  totalPoints: number;
+  completedWorkouts: number;
+  position: number | null;
+  tied: boolean;
+  of: number;
+  workout: SeasonWorkoutScore | null;
+};
+
+export type SeasonImpact = {
+  season: number;
+  competition: SeasonContext["competition"];
+  division: string;
+  scaling: SeasonContext["scaling"];
+  // Om det tenkte forsøket ville tellet etter workoutens resultPolicy
+  wouldCount: boolean;
+  before: SeasonSnapshot;
+  after: SeasonSnapshot;
+  pointsDelta: number;
+  positionDelta: number | null;
+};
+
+/**
+ * Sesongtotal og plassering på sesong-leaderboardet før og etter et tenkt forsøk på workouten
+ * (matchet på navn i ctx). Forsøket legges til som brukerens nyeste; det tellende velges som ellers.
+ */
+export async function simulateSeasonImpact(
+  ctx: SeasonContext,
+  userId: string,
+  workoutName: string,
+  score: NormalizedScore,
+  loadUnit: LoadUnit,
+): Promise<SeasonImpact | null> {
+  const workout = ctx.workouts.find((w) => w.name === workoutName);
+  if (!workout) return null;
+
+  const userResults = await loadSeasonResults(ctx, { userId });
+  const attempt = Math.max(0, ...userResults.filter((r) => r.workoutId === workout.id).map((r) => r.attempt)) + 1;
+  const hypothetical: UserResult = {
+    id: "simulated",
+    userId,
+    workoutId: workout.id,
+    attempt,
+    note: null,
+    createdAt: new Date(),
+    timeSeconds: score.timeSeconds ?? null,
+    reps: score.reps ?? null,
+    loadKg: score.loadKg ?? null,
+    tiebreakSecs: score.tiebreakSecs ?? null,
+    sortKey: scoreSortKey(workout, score),
+    progress: null,
+    splits: [],
+    validationStatus: "SELF_REPORTED",
+    judgeName: null,
+    videoUrl: null,
+    reviewedById: null,
+    reviewedAt: null,
+    rejectionReason: null,
+  };
+
+  const before = computeSeasonTotals(ctx, userResults, loadUnit);
+  const after = computeSeasonTotals(ctx, [...userResults, hypothetical], loadUnit);
+
+  const standings = await computeSeasonStandings(ctx);
+  const others = standings.filter((s) => s.userId !== userId);
+  const afterStandings = rankStandings(ctx, [
+    ...others,
+    { userId, totalPoints: after.totalPoints, completedWorkouts: after.completedWorkouts },
+  ]);
+
+  const snapshot = (totals: typeof before, table: SeasonStanding[]): SeasonSnapshot => {
+    const standing = table.find((s) => s.userId === userId);
+    return {
+      totalPoints: totals.totalPoints,
+      completedWorkouts: totals.completedWorkouts,
+      position: standing?.position ?? null,
+      tied: standing?.tied ?? false,
+      of: table.length,
+      workout: totals.perWorkout.find((p) => p.workoutId === workout.id) ?? null,
+    };
+  };
+  const beforeSnapshot = snapshot(before, standings);
+  const afterSnapshot = snapshot(after, afterStandings);
+
+  return {
+    season: ctx.season.year,
+    competition: ctx.competition,
+    division: ctx.division,
+    scaling: ctx.scaling,
+    wouldCount: afterSnapshot.workout?.attempt === attempt,
+    before: beforeSnapshot,
+    after: afterSnapshot,
+    pointsDelta: after.totalPoints - before.totalPoints,
+    // Positivt: så mange plasser opp
+    positionDelta: beforeSnapshot.position != null ? beforeSnapshot.position - afterSnapshot.position! : null,
+  };
+}
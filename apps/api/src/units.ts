@@ -0,0 +1,34 @@
+import type { LoadUnit } from "@prisma/client";
+
+export const KG_PER_LB = 0.45359237;
+
+// Inndata avrundes til nærmeste steg i sin enhet (skiver finnes ikke i mindre steg);
+// lagret verdi er alltid kg med to desimaler, slik at 225 lb blir 225 lb igjen ved visning.
+const PRECISION: Record<LoadUnit, number> = { KG: 0.5, LB: 1 };
+
+function roundTo(value: number, step: number): number {
+  return Math.round(value / step) * step;
+}
+
+/** Vekt oppgitt i en enhet til lagret kg. */
+export function toKg(value: number, unit: LoadUnit): number {
+  const snapped = roundTo(value, PRECISION[unit]);
+  const kg = unit === "KG" ? snapped : snapped * KG_PER_LB;
+  return Math.round(kg * 100) / 100;
+}
+
+/** Lagret kg i ønsket enhet, avrundet til enhetens steg. */
+export function fromKg(kg: number, unit: LoadUnit): number {
+  const value = unit === "KG" ? kg : kg / KG_PER_LB;
+  // Unngår 102.49999 fra flyttall
+  return Math.round(roundTo(value, PRECISION[unit]) * 100) / 100;
+}
+
+export function formatLoad(kg: number, unit: LoadUnit): string {
+  return `${fromKg(kg, unit)} ${unit === "KG" ? "kg" : "lb"}`;
+}
+
+/** Minste vekt over kg som kan legges inn i enheten (ett steg opp). */
+export function nextLoadStep(kg: number, unit: LoadUnit): number {
+  return toKg(fromKg(kg, unit) + PRECISION[unit], unit);
+}
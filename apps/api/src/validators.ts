@@ -2,27 +2,399 @@
 import { z } from "zod";
 
 export const CompetitionSchema = z.enum(["OPEN", "GAMES"]);
-export const DivisionSchema = z.enum(["MEN", "WOMEN"]);
+// Workouts utenfor sesongene (Fran, Murph, gymmets egne WODs)
+export const LibraryCompetitionSchema = z.enum(["BENCHMARK", "CUSTOM", "HERO"]);
+// Bare formen på koden; om divisjonen finnes sjekkes mot databasen (getDivisionSchema i divisions.ts)
+export const DivisionCodeSchema = z
+  .string()
+  .trim()
+  .toUpperCase()
+  .regex(/^[A-Z0-9_]+$/, "Divisjonskode kan bare inneholde A-Z, 0-9 og _")
+  .max(40);
+export const ScalingLevelSchema = z.enum(["RX", "SCALED", "FOUNDATIONS"]);
+export const GenderSchema = z.enum(["MALE", "FEMALE"]);
+// ISO 3166-1 alpha-2 ("NO", "us" godtas som US)
+export const CountrySchema = z
+  .string()
+  .trim()
+  .toUpperCase()
+  .regex(/^[A-Z]{2}$/, "Landkode må være to bokstaver (ISO 3166-1, f.eks. NO)");
+export const LoadUnitSchema = z.enum(["KG", "LB"]);
+export const ScoreTypeSchema = z.enum(["TIME", "REPS", "LOAD", "TIME_REPS"]);
+export const TiebreakPolicySchema = z.enum(["NONE", "LOWER_TIEBREAK", "TIME_AS_TIEBREAK"]);
+export const ResultPolicySchema = z.enum(["BEST", "LATEST"]);
+export const TiePointsRuleSchema = z.enum(["SHARED_HIGHEST", "AVERAGE"]);
+export const PointsSchemeSchema = z.enum(["LINEAR_41", "OPEN_PLACEMENT", "GAMES_TABLE"]);
 
-// MVP: vi lar "email" være en identifier (kan være email, brukernavn, æøå, osv.)
+export const MovementUnitSchema = z.enum(["REPS", "CAL", "METERS"]);
+export const WorkoutFormatSchema = z.enum(["FOR_TIME", "AMRAP", "MAX_LOAD"]);
+
+// Kalorier og meter telles som reps i totalReps og fremdrift, slik CrossFit gjør på leaderboardet
+const MovementSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  // Fast antall per runde; uten verdi gjelder repScheme for runden
+  reps: z.number().int().positive().optional(),
+  unit: MovementUnitSchema.default("REPS"),
+  // Foreskrevet vekt per divisjon, f.eks. { "MEN": 43, "WOMEN": 29 }
+  loadsKg: z.record(DivisionCodeSchema, z.number().positive()).optional(),
+});
+
+/**
+ * Strukturert workout: bevegelser, rep-skjema og runder. "21-15-9" er repScheme [21, 15, 9];
+ * "5 rounds" er rounds 5 med faste reps. AMRAP uten rounds/repScheme gjentar rundene til tiden er ute.
+ */
+export const WorkoutStructureSchema = z
+  .object({
+    format: WorkoutFormatSchema,
+    repScheme: z.array(z.number().int().positive()).min(1).max(50).optional(),
+    rounds: z.number().int().positive().max(100).optional(),
+    timeCapSeconds: z.number().int().positive().optional(),
+    movements: z.array(MovementSchema).min(1).max(30),
+  })
+  .superRefine((v, ctx) => {
+    if (v.repScheme && v.rounds) {
+      ctx.addIssue({ code: "custom", message: "Bruk enten repScheme eller rounds", path: ["rounds"] });
+    }
+    if (!v.repScheme) {
+      v.movements.forEach((m, idx) => {
+        if (m.reps == null) {
+          ctx.addIssue({ code: "custom", message: "reps kreves uten repScheme", path: ["movements", idx, "reps"] });
+        }
+      });
+    }
+    if (v.timeCapSeconds && v.format === "MAX_LOAD") {
+      ctx.addIssue({ code: "custom", message: "MAX_LOAD har ingen time cap", path: ["timeCapSeconds"] });
+    }
+  });
+
+export type WorkoutStructureInput = z.infer<typeof WorkoutStructureSchema>;
+
+const STRUCTURE_SCORE_TYPES = {
+  FOR_TIME: ["TIME", "TIME_REPS"],
+  AMRAP: ["REPS"],
+  MAX_LOAD: ["LOAD"],
+} as const;
+
+export function structureMatchesScoreType(
+  v: Partial<{ structure: WorkoutStructureInput | null; scoreType: z.infer<typeof ScoreTypeSchema> }>,
+): boolean {
+  if (!v.structure || !v.scoreType) return true;
+  return (STRUCTURE_SCORE_TYPES[v.structure.format] as readonly string[]).includes(v.scoreType);
+}
+
+const STRUCTURE_SCORE_TYPE_ISSUE = {
+  message: "structure.format passer ikke med scoreType (FOR_TIME: TIME/TIME_REPS, AMRAP: REPS, MAX_LOAD: LOAD)",
+  path: ["structure"],
+};
+
+// Fremdrift ved cap eller i en AMRAP/chipper: ferdige runder + reps inn i neste runde,
+// enten som ett tall eller per bevegelse i rekkefølgen fra strukturen
+export const ProgressSchema = z
+  .object({
+    rounds: z.number().int().nonnegative().default(0),
+    reps: z.number().int().nonnegative().optional(),
+    movementReps: z.array(z.number().int().nonnegative()).min(1).max(30).optional(),
+  })
+  .refine((v) => v.reps === undefined || v.movementReps === undefined, {
+    message: "Send enten reps eller movementReps, ikke begge",
+    path: ["movementReps"],
+  });
+
+export type ProgressInput = z.infer<typeof ProgressSchema>;
+
+// Kumulative splits fra start, i sekunder eller som klokketid ("4:05")
+const SplitsSchema = z
+  .array(z.union([z.number().int().positive(), z.string().trim().min(1).max(20)]))
+  .min(1)
+  .max(100);
+
+// Brukeren er den innloggede (Authorization-header), ikke noe som sendes i body
 export const LogResultSchema = z
   .object({
-    userId: z.string().min(1).optional(),
-    email: z
-      .string()
-      .min(1)
-      .max(200)
-      .optional()
-      .transform((v) => (v ?? "").trim()),
     workoutId: z.string().min(1),
     timeSeconds: z.number().int().positive().optional(),
     reps: z.number().int().nonnegative().optional(),
     loadKg: z.number().positive().optional(),
+    // Vekt med enhet; lagres som kg
+    load: z.object({ value: z.number().positive(), unit: LoadUnitSchema }).optional(),
     tiebreakSecs: z.number().int().nonnegative().optional(),
+    // Fritekst-score ("12:34", "CAP+17", "225 lb", "3:12 / tb 1:45"), tolkes mot workoutens scoreType
+    scoreText: z.string().trim().min(1).max(100).optional(),
+    note: z.string().trim().min(1).max(500).optional(),
+    // Dømt resultat: dommer og/eller video sender det til coach for validering
+    judgeName: z.string().trim().min(1).max(100).optional(),
+    videoUrl: z.string().trim().url().max(500).optional(),
+    requestValidation: z.boolean().optional(),
+    // "Runde 3 + 12 reps" eller reps per bevegelse på en strukturert workout; regnes om til reps
+    progress: ProgressSchema.optional(),
+    splits: SplitsSchema.optional(),
   })
-  .refine((v) => !!v.userId || !!v.email, {
-    message: "Du må sende userId eller email",
-    path: ["userId"],
+  .refine(
+    (v) =>
+      !v.scoreText ||
+      [v.timeSeconds, v.reps, v.loadKg, v.load, v.tiebreakSecs, v.progress].every((x) => x === undefined),
+    { message: "Send enten scoreText eller tall-feltene, ikke begge", path: ["scoreText"] },
+  )
+  .refine((v) => !v.load || v.loadKg === undefined, {
+    message: "Send enten load eller loadKg, ikke begge",
+    path: ["load"],
+  })
+  .refine((v) => !v.progress || v.reps === undefined, {
+    message: "Send enten progress eller reps, ikke begge",
+    path: ["progress"],
   });
 
 export type LogResultInput = z.infer<typeof LogResultSchema>;
+
+const PasswordSchema = z.string().min(8).max(200);
+
+// "identifier" er email, eller brukernavnet til en konto fra før auth som skal tas over
+export const RegisterSchema = z.object({
+  identifier: z.string().trim().min(1).max(200),
+  password: PasswordSchema,
+  name: z.string().trim().min(1).max(100).optional(),
+  // Fra admin, for å ta over en gammel konto registrert med brukernavn
+  claimCode: z.string().trim().min(1).max(100).optional(),
+});
+
+export const ClaimCodeRequestSchema = z.object({
+  identifier: z.string().trim().min(1).max(200),
+});
+
+export const LoginSchema = z.object({
+  identifier: z.string().trim().min(1).max(200),
+  password: z.string().min(1).max(200),
+});
+
+export const MagicLinkRequestSchema = z.object({
+  email: z.string().trim().email().max(200),
+});
+
+export const MagicLinkVerifySchema = z.object({
+  token: z.string().min(1).max(200),
+});
+
+export const SetPasswordSchema = z.object({
+  password: PasswordSchema,
+});
+
+const ScoreFieldsSchema = z.object({
+  timeSeconds: z.number().int().positive().optional(),
+  reps: z.number().int().nonnegative().optional(),
+  loadKg: z.number().positive().optional(),
+  tiebreakSecs: z.number().int().nonnegative().optional(),
+});
+
+// Fordeling for hele feltet: topPercent 1 = scoren til den som er akkurat topp 1 %
+export const DistributionSchema = z.object({
+  fieldSize: z.number().int().positive(),
+  percentiles: z
+    .array(
+      z.object({
+        topPercent: z.number().positive().max(100),
+        score: z.union([z.string().trim().min(1).max(100), ScoreFieldsSchema]),
+      }),
+    )
+    .min(1)
+    .max(100),
+});
+
+export type DistributionInput = z.infer<typeof DistributionSchema>;
+
+export const ImportWorkoutSchema = z.object({
+  name: z.string().trim().min(1).max(200),
+  description: z.string().max(2000).default(""),
+  scoreType: ScoreTypeSchema,
+  timeCapSeconds: z.number().int().positive().optional(),
+  totalReps: z.number().int().positive().optional(),
+  // Uten verdi: TIME_AS_TIEBREAK for TIME_REPS, ellers LOWER_TIEBREAK
+  tiebreakPolicy: TiebreakPolicySchema.optional(),
+  // Uten verdi: uendret (BEST for nye workouts)
+  resultPolicy: ResultPolicySchema.optional(),
+  distribution: DistributionSchema.optional(),
+  // totalReps og timeCapSeconds hentes fra strukturen når de ikke er satt
+  structure: WorkoutStructureSchema.optional(),
+  // Gjentakelse av en tidligere workout (f.eks. 16.1), i samme konkurranse, divisjon og skalering
+  repeatOf: z
+    .object({ season: z.number().int().min(2000).max(2100), name: z.string().trim().min(1).max(200) })
+    .optional(),
+}).refine(structureMatchesScoreType, STRUCTURE_SCORE_TYPE_ISSUE);
+
+// data er rå CSV-tekst eller en JSON-streng med [{ rank, name, scores: { [workoutName]: score } }],
+// der score er scoreText ("12:34", "CAP+17", ...) eller et objekt med timeSeconds/reps/loadKg/tiebreakSecs
+export const BenchmarkImportSchema = z.object({
+  season: z.number().int().min(2000).max(2100),
+  competition: CompetitionSchema,
+  division: DivisionCodeSchema,
+  scaling: ScalingLevelSchema.default("RX"),
+  // Enheten for vekt uten enhet i dataene ("102.5"); "225 lb" og "100 kg" tolkes som skrevet
+  loadUnit: LoadUnitSchema.default("KG"),
+  format: z.enum(["csv", "json"]),
+  workouts: z
+    .array(ImportWorkoutSchema)
+    .min(1)
+    .refine((ws) => new Set(ws.map((w) => w.name)).size === ws.length, { message: "Workout-navn må være unike" }),
+  data: z.string().min(1),
+  dryRun: z.boolean().default(false),
+});
+
+export type BenchmarkImportInput = z.infer<typeof BenchmarkImportSchema>;
+
+export const CompetitionConfigSchema = z.object({
+  season: z.number().int().min(2000).max(2100),
+  competition: CompetitionSchema,
+  tiePointsRule: TiePointsRuleSchema.optional(),
+  pointsScheme: PointsSchemeSchema.optional(),
+});
+
+export const ResultPolicyUpdateSchema = z.object({
+  resultPolicy: ResultPolicySchema,
+});
+
+// null fjerner koblingen
+export const RepeatOfUpdateSchema = z.object({
+  repeatOfWorkoutId: z.string().min(1).nullable(),
+});
+
+// null nullstiller feltet
+export const ProfileSchema = z.object({
+  name: z.string().trim().min(1).max(100).optional(),
+  birthYear: z.number().int().min(1900).max(2100).nullable().optional(),
+  gender: GenderSchema.nullable().optional(),
+  defaultDivision: DivisionCodeSchema.nullable().optional(),
+  defaultScaling: ScalingLevelSchema.nullable().optional(),
+  loadUnit: LoadUnitSchema.optional(),
+  country: CountrySchema.nullable().optional(),
+});
+
+export const DivisionUpsertSchema = z
+  .object({
+    name: z.string().trim().min(1).max(100),
+    gender: GenderSchema,
+    minAge: z.number().int().min(0).max(120).nullable().default(null),
+    maxAge: z.number().int().min(0).max(120).nullable().default(null),
+    adaptiveCategory: z.string().trim().min(1).max(60).nullable().default(null),
+    sortOrder: z.number().int().default(0),
+  })
+  .refine((v) => v.minAge == null || v.maxAge == null || v.minAge <= v.maxAge, {
+    message: "minAge kan ikke være større enn maxAge",
+    path: ["maxAge"],
+  });
+
+export const AffiliateRoleSchema = z.enum(["OWNER", "COACH", "ATHLETE"]);
+
+export const AffiliateCreateSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  // Gruppen boksen hører til (cross-box)
+  parentId: z.string().min(1).optional(),
+});
+
+export const AffiliateJoinSchema = z.object({
+  inviteCode: z.string().trim().toUpperCase().min(4).max(20),
+});
+
+export const AffiliateRoleUpdateSchema = z.object({
+  role: AffiliateRoleSchema,
+});
+
+export const ValidateResultSchema = z.object({
+  judgeName: z.string().trim().min(1).max(100).optional(),
+});
+
+export const RejectResultSchema = z.object({
+  reason: z.string().trim().min(1).max(500),
+});
+
+const LibraryWorkoutFields = z.object({
+  name: z.string().trim().min(1).max(200),
+  description: z.string().max(2000).default(""),
+  competition: LibraryCompetitionSchema.default("CUSTOM"),
+  scoreType: ScoreTypeSchema,
+  // Uten verdi: brukerens divisjon/skalering
+  division: DivisionCodeSchema.optional(),
+  scaling: ScalingLevelSchema.optional(),
+  timeCapSeconds: z.number().int().positive().nullable().optional(),
+  totalReps: z.number().int().positive().nullable().optional(),
+  tiebreakPolicy: TiebreakPolicySchema.optional(),
+  resultPolicy: ResultPolicySchema.optional(),
+  structure: WorkoutStructureSchema.nullable().optional(),
+});
+
+type LibraryWorkoutFieldsInput = Partial<z.infer<typeof LibraryWorkoutFields>>;
+
+// Time cap gir bare mening når scoren er en tid
+function timeCapMatchesScoreType(v: LibraryWorkoutFieldsInput): boolean {
+  return v.timeCapSeconds == null || v.scoreType == null || v.scoreType === "TIME" || v.scoreType === "TIME_REPS";
+}
+
+const TIME_CAP_ISSUE = {
+  message: "timeCapSeconds kan bare brukes med scoreType TIME eller TIME_REPS",
+  path: ["timeCapSeconds"],
+};
+
+export const LibraryWorkoutSchema = LibraryWorkoutFields.extend({
+  // Affiliaten som eier workouten (krever eier/coach); uten verdi eies den av brukeren
+  affiliateId: z.string().min(1).optional(),
+})
+  .refine(timeCapMatchesScoreType, TIME_CAP_ISSUE)
+  .refine(structureMatchesScoreType, STRUCTURE_SCORE_TYPE_ISSUE);
+
+export type LibraryWorkoutInput = z.infer<typeof LibraryWorkoutSchema>;
+
+// Alle felt valgfrie; null nullstiller time cap og totalReps
+export const LibraryWorkoutUpdateSchema = LibraryWorkoutFields.partial()
+  .omit({ division: true, scaling: true })
+  .refine(timeCapMatchesScoreType, TIME_CAP_ISSUE)
+  .refine(structureMatchesScoreType, STRUCTURE_SCORE_TYPE_ISSUE);
+
+// Én side i head-to-head: "me", "user:<id>", "athlete:<id>" (Athlete, se /athletes/:id)
+// eller "rank:<n>" (Top 40-utøveren med den totalplasseringen)
+export const H2HSideSchema = z
+  .string()
+  .trim()
+  .regex(/^(me|user:\S+|athlete:\S+|rank:\d+)$/i, "Bruk me, user:<id>, athlete:<id> eller rank:<n>")
+  .transform((raw) => {
+    const [kind, value] = raw.split(":");
+    switch (kind.toLowerCase()) {
+      case "user":
+        return { kind: "USER" as const, id: value };
+      case "athlete":
+        return { kind: "ATHLETE" as const, id: value };
+      case "rank":
+        return { kind: "RANK" as const, rank: Number(value) };
+      default:
+        return { kind: "ME" as const };
+    }
+  });
+
+export type H2HSide = z.infer<typeof H2HSideSchema>;
+
+// Hva-om: en tenkt score (scoreText eller tall-feltene), eller et mål å regne scoren ut fra
+export const SimulateSchema = z
+  .object({
+    score: z.union([z.string().trim().min(1).max(100), ScoreFieldsSchema]).optional(),
+    target: z
+      .object({
+        // Slå så mange av benchmark-utøverne
+        beat: z.number().int().nonnegative().optional(),
+        // Nå (minst delt) plass R blant benchmark + brukeren
+        rank: z.number().int().positive().optional(),
+      })
+      .refine((t) => (t.beat === undefined) !== (t.rank === undefined), {
+        message: "Send enten beat eller rank",
+      })
+      .optional(),
+    // Benchmark fra en annen divisjon enn brukerens
+    division: z.string().optional(),
+  })
+  .refine((v) => (v.score === undefined) !== (v.target === undefined), {
+    message: "Send enten score eller target",
+    path: ["score"],
+  });
+
+export const CommunityBenchmarkSchema = z.object({
+  athleteName: z.string().trim().min(1).max(100),
+  // scoreText ("2:14", "CAP+17") eller tall-feltene
+  score: z.union([z.string().trim().min(1).max(100), ScoreFieldsSchema]),
+  sourceUrl: z.string().trim().url().max(500).optional(),
+});
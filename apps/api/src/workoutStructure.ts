@@ -0,0 +1,200 @@
+import { WorkoutStructureSchema, type ProgressInput, type WorkoutStructureInput } from "./validators.ts";
+
+export type WorkoutStructure = WorkoutStructureInput;
+
+type Movement = WorkoutStructure["movements"][number];
+
+/** Strukturen lagret på en workout (Json-kolonnen), eller null når workouten bare har fritekst. */
+export function readStructure(stored: unknown): WorkoutStructure | null {
+  if (stored == null) return null;
+  const parsed = WorkoutStructureSchema.safeParse(stored);
+  return parsed.success ? parsed.data : null;
+}
+
+/** Antall runder; null for en AMRAP som gjentas til tiden er ute. */
+export function roundCount(s: WorkoutStructure): number | null {
+  if (s.repScheme) return s.repScheme.length;
+  if (s.rounds) return s.rounds;
+  return s.format === "AMRAP" ? null : 1;
+}
+
+function prescribedReps(s: WorkoutStructure, m: Movement, round: number): number {
+  return m.reps ?? s.repScheme![round];
+}
+
+function repsInRound(s: WorkoutStructure, round: number): number {
+  return s.movements.reduce((sum, m) => sum + prescribedReps(s, m, round), 0);
+}
+
+/** Totalt antall reps i workouten, eller null når den ikke har noen slutt (AMRAP). */
+export function structureTotalReps(s: WorkoutStructure): number | null {
+  if (s.format === "MAX_LOAD") return null;
+  const rounds = roundCount(s);
+  if (rounds == null) return null;
+  let total = 0;
+  for (let round = 0; round < rounds; round++) total += repsInRound(s, round);
+  return total;
+}
+
+/** Felt som avledes av strukturen når de ikke er satt eksplisitt på workouten. */
+export function structureDefaults(s: WorkoutStructure): { totalReps: number | null; timeCapSeconds: number | null } {
+  return { totalReps: structureTotalReps(s), timeCapSeconds: s.timeCapSeconds ?? null };
+}
+
+/**
+ * Reps utført etter `rounds` ferdige runder pluss fremdriften i neste runde: `reps`
+ * (f.eks. "runde 3 + 12 reps") eller `movementReps` per bevegelse (chipper).
+ */
+export function repsFromProgress(s: WorkoutStructure, progress: ProgressInput): number {
+  if (s.format === "MAX_LOAD") throw new Error("MAX_LOAD har ingen runder");
+
+  const rounds = roundCount(s);
+  if (rounds != null && progress.rounds > rounds) throw new Error(`Workouten har bare ${rounds} runder`);
+
+  let total = 0;
+  for (let round = 0; round < progress.rounds; round++) total += repsInRound(s, round);
+
+  const partial = progress.movementReps
+    ? repsFromMovements(s, progress.rounds, progress.movementReps)
+    : (progress.reps ?? 0);
+  if (partial === 0) return total;
+  if (rounds != null && progress.rounds === rounds) {
+    throw new Error(`Alle ${rounds} runder er ferdige; reps etter siste runde gir ikke mening`);
+  }
+
+  const nextRound = repsInRound(s, progress.rounds);
+  if (partial >= nextRound) {
+    throw new Error(`Runde ${progress.rounds + 1} har ${nextRound} reps; ${partial} reps er en hel runde eller mer`);
+  }
+  return total + partial;
+}
+
+// Bevegelsene tas i rekkefølge: etter en bevegelse som ikke er fullført kan ingen ha reps
+function repsFromMovements(s: WorkoutStructure, round: number, movementReps: number[]): number {
+  if (movementReps.length > s.movements.length) {
+    throw new Error(`Workouten har bare ${s.movements.length} bevegelser`);
+  }
+  if (movementReps.every((r) => r === 0)) return 0;
+
+  const rounds = roundCount(s);
+  if (rounds != null && round >= rounds) throw new Error(`Alle ${rounds} runder er ferdige`);
+
+  let unfinished: string | null = null;
+  movementReps.forEach((done, idx) => {
+    const m = s.movements[idx];
+    const prescribed = prescribedReps(s, m, round);
+    if (done > prescribed) throw new Error(`${m.name} har bare ${prescribed} reps i runde ${round + 1}`);
+    if (done > 0 && unfinished) throw new Error(`${m.name} kommer etter ${unfinished}, som ikke er fullført`);
+    if (done < prescribed) unfinished ??= m.name;
+  });
+  return movementReps.reduce((sum, r) => sum + r, 0);
+}
+
+/** Motsatt vei av repsFromProgress: hvor langt utøveren kom med et gitt antall reps. */
+export function progressFromReps(s: WorkoutStructure, reps: number): { rounds: number; reps: number } | null {
+  if (s.format === "MAX_LOAD") return null;
+
+  const rounds = roundCount(s);
+  let left = reps;
+  let round = 0;
+  while (rounds == null || round < rounds) {
+    const inRound = repsInRound(s, round);
+    if (left < inRound) break;
+    left -= inRound;
+    round++;
+  }
+  return { rounds: round, reps: left };
+}
+
+/**
+ * Beskrivelse generert fra strukturen, med vektene for divisjonen:
+ *   "For time: 21-15-9 reps of: Thruster (43 kg), Pull-up"
+ *   "AMRAP 12 min: 10 Pull-up, 20 Box jump, 30 Air squat"
+ */
+export function renderDescription(s: WorkoutStructure, division: string): string {
+  const movements = s.movements.map((m) => renderMovement(m, division));
+
+  switch (s.format) {
+    case "FOR_TIME": {
+      const cap = s.timeCapSeconds ? ` (time cap ${formatDuration(s.timeCapSeconds)})` : "";
+      if (s.repScheme) return `For time: ${s.repScheme.join("-")} reps of: ${movements.join(", ")}${cap}`;
+      const head = s.rounds && s.rounds > 1 ? `${s.rounds} rounds for time` : "For time";
+      return `${head}: ${movements.join(", ")}${cap}`;
+    }
+    case "AMRAP": {
+      const head = s.timeCapSeconds ? `AMRAP ${formatDuration(s.timeCapSeconds)}` : "AMRAP";
+      if (s.repScheme) return `${head}: ${s.repScheme.join("-")} reps of: ${movements.join(", ")}`;
+      return `${head}: ${movements.join(", ")}`;
+    }
+    case "MAX_LOAD": {
+      if (s.repScheme) return `Max load: ${s.repScheme.join("-")} ${movements.join(", ")}`;
+      return `Max load: ${movements.join(", ")}`;
+    }
+  }
+}
+
+function renderMovement(m: Movement, division: string): string {
+  const load = m.loadsKg?.[division];
+  const name = load != null ? `${m.name} (${load} kg)` : m.name;
+  return m.reps == null ? name : formatQuantity(m, m.reps, name);
+}
+
+function formatQuantity(m: Movement, reps: number, name: string): string {
+  switch (m.unit) {
+    case "CAL":
+      return `${reps} cal ${name}`;
+    case "METERS":
+      return `${reps} m ${name}`;
+    case "REPS":
+      return `${reps} ${name}`;
+  }
+}
+
+function formatDuration(seconds: number): string {
+  if (seconds % 60 === 0) return `${seconds / 60} min`;
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, "0")}`;
+}
+
+/** Beskrivelsen som vises: generert fra strukturen når den finnes, ellers fritekstet. */
+export function describeWorkout(workout: { structure: unknown; description: string; division: string }): string {
+  const structure = readStructure(workout.structure);
+  return structure ? renderDescription(structure, workout.division) : workout.description;
+}
+
+/** Fremdriften slik brukeren la den inn: "3 rounds + 12 reps", "1 round + 21 Thruster, 4 Pull-up". */
+export function formatProgress(s: WorkoutStructure, progress: ProgressInput): string {
+  const parts: string[] = [];
+  if (progress.rounds > 0) parts.push(`${progress.rounds} ${progress.rounds === 1 ? "round" : "rounds"}`);
+
+  if (progress.movementReps) {
+    const movements = progress.movementReps
+      // Strukturen kan ha blitt endret etter at resultatet ble logget
+      .map((reps, idx) => {
+        const m = s.movements[idx];
+        return reps > 0 && m ? formatQuantity(m, reps, m.name) : null;
+      })
+      .filter((m): m is string => m !== null);
+    if (movements.length) parts.push(movements.join(", "));
+  } else if (progress.reps) {
+    parts.push(`${progress.reps} reps`);
+  }
+  return parts.length ? parts.join(" + ") : "0 reps";
+}
+
+/**
+ * Segmentene splits måles i: hver runde, eller hver bevegelse når workouten bare har én runde
+ * (chipper). null for en AMRAP uten slutt, der hver runde er et segment.
+ */
+export function segmentCount(s: WorkoutStructure): number | null {
+  const rounds = roundCount(s);
+  return rounds === 1 ? s.movements.length : rounds;
+}
+
+export function segmentLabel(s: WorkoutStructure, index: number): string {
+  if (roundCount(s) === 1) {
+    const m = s.movements[index];
+    return m ? formatQuantity(m, prescribedReps(s, m, 0), m.name) : `Segment ${index + 1}`;
+  }
+  const reps = s.repScheme ? ` (${s.repScheme[index]} reps)` : "";
+  return `Round ${index + 1}${reps}`;
+}
@@ -0,0 +1,50 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+// auth.ts leser env ved import; testene bruker ikke databasen
+process.env.DATABASE_URL ??= "postgresql://test@localhost:5432/test";
+process.env.AUTH_SECRET ??= "test-secret-som-er-minst-32-tegn-langt";
+const { hashPassword, isEmailIdentifier, normalizeIdentifier, secretEquals, verifyPassword } = await import(
+  "../src/auth.ts"
+);
+
+describe("identifier", () => {
+  it("normaliseres til trimmet NFC i små bokstaver", () => {
+    assert.equal(normalizeIdentifier("  Bjørnar@Example.COM "), "bjørnar@example.com");
+    // "å" skrevet som a + kombinerende ring blir samme tegn som ferdigkomponert å
+    assert.equal(normalizeIdentifier("A\u030Asen"), "åsen");
+  });
+
+  it("skiller email fra brukernavn", () => {
+    assert.equal(isEmailIdentifier("bjørnar@example.com"), true);
+    assert.equal(isEmailIdentifier("bjørnar"), false);
+    assert.equal(isEmailIdentifier("bjørnar@localhost"), false);
+    assert.equal(isEmailIdentifier("to ord@example.com"), false);
+  });
+});
+
+describe("passord", () => {
+  it("verifiserer riktig passord og avviser feil", async () => {
+    const stored = await hashPassword("hemmelig-passord");
+    assert.match(stored, /^[0-9a-f]{32}:[0-9a-f]{128}$/);
+    assert.equal(await verifyPassword("hemmelig-passord", stored), true);
+    assert.equal(await verifyPassword("Hemmelig-passord", stored), false);
+  });
+
+  it("samme passord gir ulik hash (salt)", async () => {
+    assert.notEqual(await hashPassword("a"), await hashPassword("a"));
+  });
+
+  it("avviser lagrede verdier uten salt", async () => {
+    assert.equal(await verifyPassword("a", "bare-hash"), false);
+  });
+});
+
+describe("secretEquals", () => {
+  it("sammenligner hemmeligheter uavhengig av lengde", () => {
+    assert.equal(secretEquals("admin-token-1234567890", "admin-token-1234567890"), true);
+    assert.equal(secretEquals("admin-token-1234567891", "admin-token-1234567890"), false);
+    assert.equal(secretEquals("kort", "admin-token-1234567890"), false);
+    assert.equal(secretEquals("", "admin-token-1234567890"), false);
+  });
+});
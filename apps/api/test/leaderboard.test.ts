@@ -0,0 +1,53 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { decodeCursor, encodeCursor, toPage, type LeaderboardRow } from "../src/leaderboard.ts";
+
+function row(userId: string, rowNumber: number, sortKey: number[]): LeaderboardRow {
+  return {
+    resultId: `r-${userId}`,
+    userId,
+    userName: null,
+    userEmail: `${userId}@example.com`,
+    timeSeconds: sortKey[1],
+    reps: null,
+    loadKg: null,
+    tiebreakSecs: null,
+    validationStatus: "SELF_REPORTED",
+    createdAt: new Date(0),
+    sortKey,
+    rank: rowNumber,
+    tieSize: 1,
+    rowNumber,
+    total: 5,
+  };
+}
+
+describe("cursor", () => {
+  it("decodeCursor leser det encodeCursor skriver", () => {
+    const cursor = { k: [1, -140, 412], u: "user-1", d: "prev" as const };
+    assert.deepEqual(decodeCursor(encodeCursor(cursor)), cursor);
+  });
+
+  it("avviser cursorer som ikke er laget av API-et", () => {
+    assert.throws(() => decodeCursor("ikke-en-cursor"), /Ugyldig cursor/);
+    const wrong = Buffer.from(JSON.stringify({ k: [1, 2, 3, 4], u: "x", d: "next" })).toString("base64url");
+    assert.throws(() => decodeCursor(wrong), /Ugyldig cursor/);
+  });
+});
+
+describe("toPage", () => {
+  const rows = [row("b", 2, [0, 600, 0]), row("c", 3, [0, 610, 0])];
+
+  it("gir next etter siste rad og prev før første når det finnes flere", () => {
+    const page = toPage(rows, 5);
+    assert.deepEqual(decodeCursor(page.nextCursor!), { k: [0, 610, 0], u: "c", d: "next" });
+    assert.deepEqual(decodeCursor(page.prevCursor!), { k: [0, 600, 0], u: "b", d: "prev" });
+  });
+
+  it("ingen cursor forbi endene av leaderboardet", () => {
+    const page = toPage([row("a", 1, [0, 500, 0]), ...rows], 3);
+    assert.equal(page.nextCursor, null);
+    assert.equal(page.prevCursor, null);
+    assert.deepEqual(toPage([], 0), { rows: [], total: 0, nextCursor: null, prevCursor: null });
+  });
+});
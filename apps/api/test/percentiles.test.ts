@@ -0,0 +1,86 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { estimateFieldPlacement, parseDistribution, scoreValue } from "../src/percentiles.ts";
+import type { ScoringRules } from "../src/scoring.ts";
+
+const forTime: ScoringRules = { scoreType: "TIME", timeCapSeconds: 900, totalReps: 150 };
+const amrap: ScoringRules = { scoreType: "REPS" };
+const outsideTop40 = { placement: { rank: 41, tiedWith: 0 }, total: 40 };
+
+describe("parseDistribution", () => {
+  it("tolker scoretekst og sorterer på topPercent", () => {
+    const points = parseDistribution(forTime, {
+      fieldSize: 1000,
+      percentiles: [
+        { topPercent: 50, score: "12:00" },
+        { topPercent: 10, score: "9:30" },
+        { topPercent: 90, score: "CAP+20" },
+      ],
+    });
+    assert.deepEqual(points.map((p) => p.topPercent), [10, 50, 90]);
+    assert.deepEqual(points[2], { topPercent: 90, reps: 130 });
+  });
+
+  it("avviser en bedre score lenger ned og doble prosenter", () => {
+    const percentiles = [
+      { topPercent: 10, score: "200" },
+      { topPercent: 50, score: "210" },
+    ];
+    assert.throws(() => parseDistribution(amrap, { fieldSize: 100, percentiles }), /p10/);
+    const twice = [
+      { topPercent: 10, score: "200" },
+      { topPercent: 10, score: "190" },
+    ];
+    assert.throws(() => parseDistribution(amrap, { fieldSize: 100, percentiles: twice }));
+  });
+});
+
+describe("scoreValue", () => {
+  it("capped TIME regnes som cap + 1 sekund per rep igjen", () => {
+    assert.equal(scoreValue(forTime, { timeSeconds: 600 }), -600);
+    assert.equal(scoreValue(forTime, { reps: 140 }), -(900 + 1 + 10));
+    assert.ok(scoreValue(forTime, { timeSeconds: 900 }) > scoreValue(forTime, { reps: 149 }));
+  });
+});
+
+describe("estimateFieldPlacement", () => {
+  const breakpoints = [
+    { topPercent: 10, reps: 200 },
+    { topPercent: 50, reps: 150 },
+    { topPercent: 90, reps: 100 },
+  ];
+
+  it("interpolerer mellom knekkpunktene", () => {
+    const estimate = estimateFieldPlacement(amrap, { reps: 175 }, breakpoints, 1000, outsideTop40);
+    assert.deepEqual(estimate, {
+      topPercent: 30,
+      percentile: 70,
+      projectedPlacement: 300,
+      fieldSize: 1000,
+      basis: "INTERPOLATED",
+    });
+  });
+
+  it("gir grensen utenfor ytterste knekkpunkt", () => {
+    const above = estimateFieldPlacement(amrap, { reps: 250 }, breakpoints, 1000, outsideTop40);
+    assert.equal(above?.basis, "ABOVE_BREAKPOINTS");
+    assert.equal(above?.topPercent, 10);
+    const below = estimateFieldPlacement(amrap, { reps: 50 }, breakpoints, null, outsideTop40);
+    assert.equal(below?.basis, "BELOW_BREAKPOINTS");
+    assert.equal(below?.topPercent, 90);
+    assert.equal(below?.projectedPlacement, null);
+  });
+
+  it("bruker plasseringen blant Top 40 når brukeren er der", () => {
+    const estimate = estimateFieldPlacement(amrap, { reps: 300 }, breakpoints, 1000, {
+      placement: { rank: 3, tiedWith: 0 },
+      total: 40,
+    });
+    assert.equal(estimate?.basis, "BENCHMARK");
+    assert.equal(estimate?.projectedPlacement, 3);
+  });
+
+  it("uten knekkpunkter og utenfor Top 40 finnes ikke noe anslag", () => {
+    assert.equal(estimateFieldPlacement(amrap, { reps: 10 }, [], 1000, outsideTop40), null);
+  });
+});
@@ -0,0 +1,53 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { compareTotals, getPointsScheme, pointsForPlacement } from "../src/points.ts";
+
+const linear = getPointsScheme("LINEAR_41");
+const open = getPointsScheme("OPEN_PLACEMENT");
+const games = getPointsScheme("GAMES_TABLE");
+
+describe("poengordninger", () => {
+  it("LINEAR_41: 40 for førsteplass, 1 for plass 40, 0 utenfor og for manglende", () => {
+    assert.equal(linear.pointsForRank(1), 40);
+    assert.equal(linear.pointsForRank(40), 1);
+    assert.equal(linear.pointsForRank(41), 0);
+    assert.equal(linear.pointsForMissing(41), 0);
+  });
+
+  it("OPEN_PLACEMENT: poeng er plassen, manglende gir sisteplass i feltet", () => {
+    assert.equal(open.pointsForRank(7), 7);
+    assert.equal(open.pointsForMissing(41), 41);
+    assert.ok(compareTotals(open, 10, 20) < 0);
+    assert.ok(compareTotals(linear, 10, 20) > 0);
+  });
+
+  it("GAMES_TABLE: 5 poeng mellom de fem første, deretter 2", () => {
+    assert.deepEqual([1, 2, 3, 4, 5, 6, 7].map(games.pointsForRank), [100, 95, 90, 85, 80, 75, 73]);
+  });
+
+  it("GAMES_TABLE: halen gir fortsatt poeng, utenfor feltet og manglende gir 0", () => {
+    assert.deepEqual([36, 37, 38, 39, 40].map(games.pointsForRank), [15, 13, 11, 9, 7]);
+    assert.equal(games.pointsForRank(41), 0);
+    assert.equal(games.pointsForRank(0), 0);
+    assert.equal(games.pointsForMissing(41), 0);
+  });
+});
+
+describe("pointsForPlacement", () => {
+  const shared = { rank: 2, tiedWith: 2 };
+
+  it("SHARED_HIGHEST gir alle de delte poengene for plassen", () => {
+    assert.equal(pointsForPlacement(linear, shared, "SHARED_HIGHEST"), 39);
+    assert.equal(pointsForPlacement(open, shared, "SHARED_HIGHEST"), 2);
+  });
+
+  it("AVERAGE gir snittet av plassene de deler", () => {
+    assert.equal(pointsForPlacement(linear, shared, "AVERAGE"), 38);
+    assert.equal(pointsForPlacement(open, shared, "AVERAGE"), 3);
+    assert.equal(pointsForPlacement(linear, { rank: 40, tiedWith: 1 }, "AVERAGE"), 0.5);
+  });
+
+  it("uten deling er reglene like", () => {
+    assert.equal(pointsForPlacement(linear, { rank: 5, tiedWith: 0 }, "AVERAGE"), 36);
+  });
+});
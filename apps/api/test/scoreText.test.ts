@@ -0,0 +1,96 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import type { LoadUnit } from "@prisma/client";
+import { formatScore, parseClockToSeconds, parseScoreText } from "../src/scoreText.ts";
+import type { ScoringRules } from "../src/scoring.ts";
+
+const forTime: ScoringRules = { scoreType: "TIME", timeCapSeconds: 900, totalReps: 150 };
+const amrap: ScoringRules = { scoreType: "REPS" };
+const lift: ScoringRules = { scoreType: "LOAD" };
+const chipper: ScoringRules = { scoreType: "TIME_REPS", timeCapSeconds: 720, totalReps: 150 };
+
+describe("parseClockToSeconds", () => {
+  it("godtar sekunder, mm:ss og hh:mm:ss", () => {
+    assert.equal(parseClockToSeconds("754"), 754);
+    assert.equal(parseClockToSeconds("12:34"), 754);
+    assert.equal(parseClockToSeconds("1:02:03"), 3723);
+  });
+
+  it("avviser ugyldige klokkeslett", () => {
+    assert.equal(parseClockToSeconds("12:60"), null);
+    assert.equal(parseClockToSeconds("12:3:4:5"), null);
+    assert.equal(parseClockToSeconds("12.5"), null);
+  });
+});
+
+describe("parseScoreText", () => {
+  it("TIME: klokke, sekunder og tiebreak", () => {
+    assert.deepEqual(parseScoreText(forTime, "12:34"), { timeSeconds: 754 });
+    assert.deepEqual(parseScoreText(forTime, "754s"), { timeSeconds: 754 });
+    assert.deepEqual(parseScoreText(forTime, "12:34 / tb 8:01"), { timeSeconds: 754, tiebreakSecs: 481 });
+  });
+
+  it("TIME: capped som CAP+N eller reps utført", () => {
+    assert.deepEqual(parseScoreText(forTime, "CAP+17"), { reps: 133 });
+    assert.deepEqual(parseScoreText(forTime, "133 reps"), { reps: 133 });
+    assert.throws(() => parseScoreText(forTime, "CAP+151"));
+  });
+
+  it("REPS: bare tall og reps-suffiks", () => {
+    assert.deepEqual(parseScoreText(amrap, "215"), { reps: 215 });
+    assert.deepEqual(parseScoreText(amrap, "215 reps"), { reps: 215 });
+  });
+
+  it("LOAD: kg uten enhet, komma og lb", () => {
+    assert.deepEqual(parseScoreText(lift, "102,5"), { loadKg: 102.5 });
+    assert.deepEqual(parseScoreText(lift, "100 kg"), { loadKg: 100 });
+    assert.deepEqual(parseScoreText(lift, "225 lb"), { loadKg: 102.06 });
+  });
+
+  it("LOAD: tall uten enhet er i brukerens enhet", () => {
+    assert.deepEqual(parseScoreText(lift, "225", "LB"), { loadKg: 102.06 });
+    assert.deepEqual(parseScoreText(lift, "100 kg", "LB"), { loadKg: 100 });
+  });
+
+  it("TIME_REPS: reps / tid, CAP+N og ferdig uten reps", () => {
+    assert.deepEqual(parseScoreText(chipper, "140 / 11:32"), { reps: 140, timeSeconds: 692 });
+    assert.deepEqual(parseScoreText(chipper, "CAP+17"), { reps: 133 });
+    assert.deepEqual(parseScoreText(chipper, "11:32"), { timeSeconds: 692, reps: 150 });
+  });
+
+  it("avviser feil type, doble felt og tom tekst", () => {
+    assert.throws(() => parseScoreText(amrap, "100 kg"));
+    assert.throws(() => parseScoreText(amrap, "CAP+3"));
+    assert.throws(() => parseScoreText(forTime, "12:34 / 12:40"));
+    assert.throws(() => parseScoreText(amrap, "12.5"));
+    assert.throws(() => parseScoreText({ scoreType: "TIME_REPS" }, "CAP+17"));
+    assert.throws(() => parseScoreText(forTime, "  "));
+  });
+});
+
+describe("formatScore", () => {
+  it("formaterer som på whiteboardet", () => {
+    assert.equal(formatScore(forTime, { timeSeconds: 3723 }), "1:02:03");
+    assert.equal(formatScore(forTime, { reps: 133 }), "CAP+17");
+    assert.equal(formatScore({ scoreType: "TIME" }, { reps: 133 }), "CAP (133 reps)");
+    assert.equal(formatScore(lift, { loadKg: 102.5, tiebreakSecs: 105 }), "102.5 kg / tb 1:45");
+    assert.equal(formatScore(lift, { loadKg: 102.06 }, "LB"), "225 lb");
+  });
+
+  it("parseScoreText leser tilbake det formatScore skriver", () => {
+    const cases: Array<[ScoringRules, string, LoadUnit?]> = [
+      [forTime, "12:34"],
+      [forTime, "CAP+17"],
+      [forTime, "9:05 / tb 4:30"],
+      [amrap, "215 reps"],
+      [lift, "102.5 kg"],
+      [lift, "225", "LB"],
+      [chipper, "CAP+12 / 12:00"],
+      [chipper, "11:32"],
+    ];
+    for (const [rules, text, unit] of cases) {
+      const score = parseScoreText(rules, text, unit);
+      assert.deepEqual(parseScoreText(rules, formatScore(rules, score, unit), unit), score, text);
+    }
+  });
+});
@@ -0,0 +1,132 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  compareScores,
+  compareSortKeys,
+  competitionRanks,
+  computeBenchmarkBeatenCount,
+  computePlacementAmongBenchmarkPlusUser,
+  scoreSortKey,
+  type NormalizedScore,
+  type ScoringRules,
+} from "../src/scoring.ts";
+
+const forTime: ScoringRules = { scoreType: "TIME", timeCapSeconds: 900, totalReps: 150 };
+const amrap: ScoringRules = { scoreType: "REPS" };
+const chipper: ScoringRules = { scoreType: "TIME_REPS", timeCapSeconds: 720 };
+
+// compareScores og den lagrede sortKey skal alltid gi samme rekkefølge
+function assertOrder(rules: ScoringRules, a: NormalizedScore, b: NormalizedScore, expected: -1 | 0 | 1): void {
+  assert.equal(Math.sign(compareScores(rules, a, b)), expected);
+  assert.equal(Math.sign(compareSortKeys(scoreSortKey(rules, a), scoreSortKey(rules, b))), expected);
+}
+
+describe("compareScores", () => {
+  it("NONE: lik hovedscore er uavgjort uansett tiebreak", () => {
+    const rules = { ...amrap, tiebreakPolicy: "NONE" as const };
+    assertOrder(rules, { reps: 200, tiebreakSecs: 300 }, { reps: 200, tiebreakSecs: 100 }, 0);
+    assertOrder(rules, { reps: 200 }, { reps: 200, tiebreakSecs: 100 }, 0);
+    assertOrder(rules, { reps: 201 }, { reps: 200 }, -1);
+  });
+
+  it("LOWER_TIEBREAK: lavest tiebreak vinner ved lik score", () => {
+    const rules = { ...amrap, tiebreakPolicy: "LOWER_TIEBREAK" as const };
+    assertOrder(rules, { reps: 200, tiebreakSecs: 100 }, { reps: 200, tiebreakSecs: 300 }, -1);
+    assertOrder(rules, { reps: 200, tiebreakSecs: 100 }, { reps: 200, tiebreakSecs: 100 }, 0);
+    // Tiebreak avgjør bare når hovedscoren er lik
+    assertOrder(rules, { reps: 199, tiebreakSecs: 1 }, { reps: 200, tiebreakSecs: 500 }, 1);
+  });
+
+  it("LOWER_TIEBREAK: den som mangler tiebreak taper, to uten er uavgjort", () => {
+    const rules = { ...amrap, tiebreakPolicy: "LOWER_TIEBREAK" as const };
+    assertOrder(rules, { reps: 200 }, { reps: 200, tiebreakSecs: 600 }, 1);
+    assertOrder(rules, { reps: 200, tiebreakSecs: null }, { reps: 200 }, 0);
+  });
+
+  it("TIME_AS_TIEBREAK: lavest tid vinner ved like reps", () => {
+    const rules = { ...amrap, tiebreakPolicy: "TIME_AS_TIEBREAK" as const };
+    assertOrder(rules, { reps: 200, timeSeconds: 500 }, { reps: 200, timeSeconds: 600 }, -1);
+    assertOrder(rules, { reps: 200, timeSeconds: 500 }, { reps: 200, timeSeconds: 500 }, 0);
+    assertOrder(rules, { reps: 200 }, { reps: 200, timeSeconds: 700 }, 1);
+  });
+
+  it("TIME: fullført slår capped, og capped rangeres på reps", () => {
+    assertOrder(forTime, { timeSeconds: 899 }, { reps: 149 }, -1);
+    assertOrder(forTime, { reps: 140 }, { reps: 120 }, -1);
+  });
+
+  it("TIME: capped mot capped med like reps avgjøres av tiebreak", () => {
+    assertOrder(forTime, { reps: 140, tiebreakSecs: 400 }, { reps: 140, tiebreakSecs: 450 }, -1);
+    assertOrder(forTime, { reps: 140, tiebreakSecs: 400 }, { reps: 140, tiebreakSecs: 400 }, 0);
+    assertOrder(forTime, { reps: 140 }, { reps: 140, tiebreakSecs: 450 }, 1);
+    assertOrder({ ...forTime, tiebreakPolicy: "NONE" }, { reps: 140, tiebreakSecs: 400 }, { reps: 140 }, 0);
+  });
+
+  it("TIME_REPS: flest reps, deretter lavest tid (standard)", () => {
+    assertOrder(chipper, { reps: 100, timeSeconds: 700 }, { reps: 90, timeSeconds: 400 }, -1);
+    assertOrder(chipper, { reps: 100, timeSeconds: 650 }, { reps: 100, timeSeconds: 700 }, -1);
+    assertOrder(chipper, { reps: 100, timeSeconds: 650 }, { reps: 100, timeSeconds: 650 }, 0);
+    assertOrder(chipper, { reps: 100 }, { reps: 100, timeSeconds: 720 }, 1);
+  });
+});
+
+describe("scoreSortKey", () => {
+  it("capped TIME sorteres etter alle som fullførte, flest reps først", () => {
+    assert.deepEqual(scoreSortKey(forTime, { timeSeconds: 754 }), [0, 754, Number.MAX_SAFE_INTEGER]);
+    assert.deepEqual(scoreSortKey(forTime, { reps: 140, tiebreakSecs: 400 }), [1, -140, 400]);
+  });
+
+  it("NONE gir samme nøkkel uansett tiebreak, så like scores deler plass", () => {
+    const rules = { ...amrap, tiebreakPolicy: "NONE" as const };
+    assert.deepEqual(scoreSortKey(rules, { reps: 200, tiebreakSecs: 30 }), scoreSortKey(rules, { reps: 200 }));
+  });
+
+  it("compareSortKeys sammenligner leksikografisk", () => {
+    assert.ok(compareSortKeys([0, 900, 5], [1, -150, 0]) < 0);
+    assert.ok(compareSortKeys([0, -200, 10], [0, -200, 9]) > 0);
+    assert.equal(compareSortKeys([0, -200, 0], [0, -200, 0]), 0);
+  });
+});
+
+describe("computeBenchmarkBeatenCount", () => {
+  it("teller bare strengt slåtte som slått", () => {
+    const benchmark: NormalizedScore[] = [
+      { timeSeconds: 500 },
+      { timeSeconds: 600 },
+      { timeSeconds: 600 },
+      { reps: 140 },
+    ];
+    assert.equal(computeBenchmarkBeatenCount(forTime, { timeSeconds: 600 }, benchmark), 1);
+    assert.equal(computeBenchmarkBeatenCount(forTime, { timeSeconds: 599 }, benchmark), 3);
+    assert.equal(computeBenchmarkBeatenCount(forTime, { reps: 140 }, benchmark), 0);
+  });
+
+  it("tiebreak avgjør om en lik score er slått", () => {
+    const field: NormalizedScore[] = [{ reps: 200, tiebreakSecs: 300 }, { reps: 200 }];
+    const lower = { ...amrap, tiebreakPolicy: "LOWER_TIEBREAK" as const };
+    assert.equal(computeBenchmarkBeatenCount(lower, { reps: 200, tiebreakSecs: 200 }, field), 2);
+    assert.equal(computeBenchmarkBeatenCount(lower, { reps: 200, tiebreakSecs: 400 }, field), 1);
+    const none = { ...amrap, tiebreakPolicy: "NONE" as const };
+    assert.equal(computeBenchmarkBeatenCount(none, { reps: 200, tiebreakSecs: 1 }, field), 0);
+  });
+});
+
+describe("plassering ved uavgjort", () => {
+  const benchmark: NormalizedScore[] = [{ timeSeconds: 500 }, { timeSeconds: 600 }, { timeSeconds: 600 }];
+
+  it("deler plass med benchmark-scores som er like (1, 2, 2, 4)", () => {
+    const placement = (s: NormalizedScore) => computePlacementAmongBenchmarkPlusUser(forTime, s, benchmark);
+    assert.deepEqual(placement({ timeSeconds: 450 }), { rank: 1, tiedWith: 0 });
+    assert.deepEqual(placement({ timeSeconds: 600 }), { rank: 2, tiedWith: 2 });
+    assert.deepEqual(placement({ timeSeconds: 601 }), { rank: 4, tiedWith: 0 });
+  });
+
+  it("competitionRanks hopper over plassene de delte tar", () => {
+    const sorted = [10, 20, 20, 20, 30];
+    assert.deepEqual(competitionRanks(sorted, (a, b) => a - b).map((p) => p.rank), [1, 2, 2, 2, 5]);
+    assert.deepEqual(competitionRanks([7, 7], (a, b) => a - b), [
+      { rank: 1, tiedWith: 1 },
+      { rank: 1, tiedWith: 1 },
+    ]);
+  });
+});
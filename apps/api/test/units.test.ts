@@ -0,0 +1,36 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { formatLoad, fromKg, toKg } from "../src/units.ts";
+
+describe("toKg", () => {
+  it("avrunder kg til nærmeste halve kilo", () => {
+    assert.equal(toKg(102.3, "KG"), 102.5);
+    assert.equal(toKg(102.2, "KG"), 102);
+    assert.equal(toKg(60, "KG"), 60);
+  });
+
+  it("avrunder lb til hele pund før omregning, lagret med to desimaler", () => {
+    assert.equal(toKg(225, "LB"), 102.06);
+    assert.equal(toKg(224.6, "LB"), 102.06);
+    assert.equal(toKg(135, "LB"), 61.23);
+  });
+});
+
+describe("fromKg", () => {
+  it("gir samme tall tilbake i enheten det ble skrevet i", () => {
+    for (const lb of [45, 95, 135, 225, 315, 405]) assert.equal(fromKg(toKg(lb, "LB"), "LB"), lb);
+    for (const kg of [20, 42.5, 102.5, 140]) assert.equal(fromKg(toKg(kg, "KG"), "KG"), kg);
+  });
+
+  it("avrunder til enhetens steg ved visning", () => {
+    assert.equal(fromKg(100, "LB"), 220);
+    assert.equal(fromKg(102.06, "KG"), 102);
+  });
+});
+
+describe("formatLoad", () => {
+  it("viser vekten med enhet", () => {
+    assert.equal(formatLoad(102.06, "LB"), "225 lb");
+    assert.equal(formatLoad(102.5, "KG"), "102.5 kg");
+  });
+});
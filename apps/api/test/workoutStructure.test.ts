@@ -0,0 +1,109 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { WorkoutStructureSchema } from "../src/validators.ts";
+import {
+  formatProgress,
+  progressFromReps,
+  renderDescription,
+  repsFromProgress,
+  roundCount,
+  structureDefaults,
+} from "../src/workoutStructure.ts";
+
+const fran = WorkoutStructureSchema.parse({
+  format: "FOR_TIME",
+  repScheme: [21, 15, 9],
+  timeCapSeconds: 600,
+  movements: [{ name: "Thruster", loadsKg: { MEN: 43, WOMEN: 29 } }, { name: "Pull-up" }],
+});
+
+const cindy = WorkoutStructureSchema.parse({
+  format: "AMRAP",
+  timeCapSeconds: 1200,
+  movements: [
+    { name: "Pull-up", reps: 5 },
+    { name: "Push-up", reps: 10 },
+    { name: "Air squat", reps: 15 },
+  ],
+});
+
+const rowAndBurpees = WorkoutStructureSchema.parse({
+  format: "FOR_TIME",
+  rounds: 3,
+  movements: [
+    { name: "Row", reps: 20, unit: "CAL" },
+    { name: "Burpee", reps: 10 },
+  ],
+});
+
+describe("runder og totalReps", () => {
+  it("repScheme og rounds gir antall runder; AMRAP uten slutt gir null", () => {
+    assert.equal(roundCount(fran), 3);
+    assert.equal(roundCount(rowAndBurpees), 3);
+    assert.equal(roundCount(cindy), null);
+  });
+
+  it("totalReps og time cap avledes av strukturen", () => {
+    assert.deepEqual(structureDefaults(fran), { totalReps: 90, timeCapSeconds: 600 });
+    assert.deepEqual(structureDefaults(rowAndBurpees), { totalReps: 90, timeCapSeconds: null });
+    assert.deepEqual(structureDefaults(cindy), { totalReps: null, timeCapSeconds: 1200 });
+  });
+});
+
+describe("fremdrift i runder", () => {
+  it("runder + reps blir reps utført", () => {
+    assert.equal(repsFromProgress(fran, { rounds: 1, reps: 12 }), 54);
+    assert.equal(repsFromProgress(cindy, { rounds: 20, reps: 7 }), 607);
+    assert.equal(repsFromProgress(fran, { rounds: 3, reps: 0 }), 90);
+  });
+
+  it("progressFromReps går motsatt vei", () => {
+    for (const [structure, progress] of [
+      [fran, { rounds: 1, reps: 12 }],
+      [fran, { rounds: 0, reps: 0 }],
+      [cindy, { rounds: 20, reps: 7 }],
+      [rowAndBurpees, { rounds: 2, reps: 25 }],
+    ] as const) {
+      assert.deepEqual(progressFromReps(structure, repsFromProgress(structure, progress)), progress);
+    }
+    assert.deepEqual(progressFromReps(fran, 90), { rounds: 3, reps: 0 });
+  });
+
+  it("avviser fremdrift som ikke finnes i workouten", () => {
+    assert.throws(() => repsFromProgress(fran, { rounds: 4, reps: 0 }));
+    assert.throws(() => repsFromProgress(fran, { rounds: 3, reps: 1 }));
+    assert.throws(() => repsFromProgress(fran, { rounds: 1, reps: 30 }));
+  });
+});
+
+describe("fremdrift per bevegelse", () => {
+  it("summerer reps per bevegelse i runden som pågikk", () => {
+    assert.equal(repsFromProgress(fran, { rounds: 1, movementReps: [15, 4] }), 61);
+    assert.equal(repsFromProgress(rowAndBurpees, { rounds: 0, movementReps: [12] }), 12);
+    assert.equal(repsFromProgress(fran, { rounds: 3, movementReps: [0, 0] }), 90);
+  });
+
+  it("en bevegelse kan bare ha reps når de foran er fullført", () => {
+    assert.throws(() => repsFromProgress(fran, { rounds: 1, movementReps: [10, 4] }), /Thruster/);
+    assert.throws(() => repsFromProgress(fran, { rounds: 1, movementReps: [16, 0] }), /bare 15 reps/);
+    assert.throws(() => repsFromProgress(fran, { rounds: 0, movementReps: [21, 0, 3] }), /bare 2 bevegelser/);
+  });
+
+  it("formatProgress viser fremdriften slik den ble lagt inn", () => {
+    assert.equal(formatProgress(fran, { rounds: 1, movementReps: [15, 4] }), "1 round + 15 Thruster, 4 Pull-up");
+    assert.equal(formatProgress(cindy, { rounds: 20, reps: 7 }), "20 rounds + 7 reps");
+    assert.equal(formatProgress(rowAndBurpees, { rounds: 0, movementReps: [12] }), "12 cal Row");
+    assert.equal(formatProgress(cindy, { rounds: 0 }), "0 reps");
+  });
+});
+
+describe("renderDescription", () => {
+  it("skriver beskrivelsen med vektene for divisjonen", () => {
+    assert.equal(
+      renderDescription(fran, "MEN"),
+      "For time: 21-15-9 reps of: Thruster (43 kg), Pull-up (time cap 10 min)",
+    );
+    assert.equal(renderDescription(cindy, "WOMEN"), "AMRAP 20 min: 5 Pull-up, 10 Push-up, 15 Air squat");
+    assert.equal(renderDescription(rowAndBurpees, "MEN"), "3 rounds for time: 20 cal Row, 10 Burpee");
+  });
+});
@@ -1,7 +1,7 @@
 // File: apps/mobile/App.tsx
 import AsyncStorage from "@react-native-async-storage/async-storage";
-import React, { useEffect, useMemo, useState } from "react";
-import { Platform, Pressable, SafeAreaView, ScrollView, Text, TextInput, View } from "react-native";
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import { Linking, Platform, Pressable, SafeAreaView, ScrollView, Text, TextInput, View } from "react-native";
 
 type ScoreType = "TIME" | "REPS" | "LOAD" | "TIME_REPS";
 
@@ -9,6 +9,8 @@ type Workout = {
   id: string;
   name: string;
   description: string;
+  // Generert fra strukturen når workouten har en, ellers lik description
+  displayDescription: string;
   scoreType: ScoreType;
 };
 
@@ -16,6 +18,7 @@ type LeaderboardEntry = {
   rank: number;
   user: { id: string; name: string | null; email: string };
   score: { timeSeconds: number | null; reps: number | null; loadKg: number | null; tiebreakSecs: number | null };
+  display: string;
   updatedAt: string;
 };
 
@@ -23,16 +26,23 @@ type BenchmarkRow = {
   rank: number;
   name: string;
   score: { timeSeconds: number | null; reps: number | null; loadKg: number | null; tiebreakSecs: number | null };
+  display: string;
 };
 
 type MeResponse = {
-  user: { id: string; email: string; name: string | null };
+  user: { id: string; email: string; name: string | null; loadUnit: "KG" | "LB" };
   results: Array<{
     id: string;
+    attempt: number;
+    note: string | null;
     createdAt: string;
     timeSeconds: number | null;
     reps: number | null;
     loadKg: number | null;
+    // Formatert score, vekt i brukerens enhet
+    display: string;
+    // "3 rounds + 12 reps" når resultatet ble logget som fremdrift
+    progressDisplay: string | null;
     workout: { id: string; name: string; scoreType: ScoreType };
   }>;
 };
@@ -48,6 +58,15 @@ type SummaryResponse = {
 const API_BASE_URL = "http://127.0.0.1:3000";
 const DEFAULT_CTX = { season: 2026, competition: "OPEN", division: "MEN" as const };
 const STORAGE_KEY = "cf_benchmark_identifier_v1";
+const TOKEN_KEY = "cf_benchmark_token_v1";
+
+type AuthResponse = { user: { id: string; email: string; name: string | null }; token: string; expiresAt: string };
+
+// Magic link-lenken (APP_URL/login?token=...) kan åpne appen direkte via cfbenchmark://
+function magicLinkToken(url: string | null): string | null {
+  const match = url?.match(/[?&]token=([^&#]+)/);
+  return match ? decodeURIComponent(match[1]) : null;
+}
 
 function cn(...parts: Array<string | false | null | undefined>) {
   return parts.filter(Boolean).join(" ");
@@ -62,26 +81,6 @@ async function fetchJson<T>(url: string, init?: RequestInit): Promise<T> {
   return (await res.json()) as T;
 }
 
-function parseTimeToSeconds(input: string): number | null {
-  const s = input.trim();
-  if (!s) return null;
-  if (/^\d+$/.test(s)) return Number(s);
-
-  const parts = s.split(":").map((p) => p.trim());
-  if (parts.some((p) => !/^\d+$/.test(p))) return null;
-  if (parts.length < 2 || parts.length > 3) return null;
-
-  const nums = parts.map(Number);
-  if (nums.some((n) => Number.isNaN(n))) return null;
-
-  if (parts.length === 2) {
-    const [mm, ss] = nums;
-    return mm * 60 + ss;
-  }
-  const [hh, mm, ss] = nums;
-  return hh * 3600 + mm * 60 + ss;
-}
-
 function formatTime(seconds: number): string {
   const s = Math.max(0, Math.floor(seconds));
   const hh = Math.floor(s / 3600);
@@ -91,17 +90,6 @@ function formatTime(seconds: number): string {
   return `${mm}:${String(ss).padStart(2, "0")}`;
 }
 
-function prettyScore(
-  scoreType: ScoreType,
-  score: { timeSeconds: number | null; reps: number | null; loadKg: number | null }
-) {
-  if (scoreType === "TIME")
-    return score.timeSeconds == null ? "-" : `${formatTime(score.timeSeconds)} (${score.timeSeconds}s)`;
-  if (scoreType === "REPS") return score.reps == null ? "-" : `${score.reps} reps`;
-  if (scoreType === "LOAD") return score.loadKg == null ? "-" : `${score.loadKg} kg`;
-  return score.reps == null ? "-" : `${score.reps} reps`;
-}
-
 /** UI primitives (mini design system) */
 function GlowBg() {
   // “Fake” gradient/glow: layered circles + subtle border
@@ -197,12 +185,14 @@ function FancyInput({
                       placeholder,
                       helper,
                       autoCapitalize = "none",
+                      secureTextEntry,
                     }: {
   value: string;
   onChangeText: (v: string) => void;
   placeholder?: string;
   helper?: string;
   autoCapitalize?: "none" | "sentences" | "words" | "characters";
+  secureTextEntry?: boolean;
 }) {
   return (
     <View>
@@ -210,6 +200,7 @@ function FancyInput({
         value={value}
         onChangeText={onChangeText}
         autoCapitalize={autoCapitalize}
+        secureTextEntry={secureTextEntry}
         placeholder={placeholder}
         placeholderTextColor="#71717a"
         className="text-white bg-zinc-950 border border-zinc-800 rounded-2xl px-4 py-3"
@@ -242,6 +233,12 @@ export default function App() {
   const [lbTab, setLbTab] = useState<"app" | "benchmark">("app");
 
   const [identifier, setIdentifier] = useState("bjørnar@example.com");
+  const [password, setPassword] = useState("");
+  const [token, setToken] = useState<string | null>(null);
+  const [authInfo, setAuthInfo] = useState("");
+  // Satt etter 202 claimPending (vent på lenken) eller 409 claimCodeRequired (be admin om kode)
+  const [claimStep, setClaimStep] = useState<"magicLink" | "claimCode" | null>(null);
+  const [claimInput, setClaimInput] = useState("");
   const [workouts, setWorkouts] = useState<Workout[]>([]);
   const [selectedWorkoutId, setSelectedWorkoutId] = useState<string | null>(null);
   const [inputValue, setInputValue] = useState("12:30");
@@ -272,12 +269,100 @@ export default function App() {
   async function loadIdentifier() {
     const v = await AsyncStorage.getItem(STORAGE_KEY);
     if (v && v.trim()) setIdentifier(v);
+    const t = await AsyncStorage.getItem(TOKEN_KEY);
+    if (t) setToken(t);
   }
 
   async function saveIdentifier(v: string) {
     await AsyncStorage.setItem(STORAGE_KEY, v);
   }
 
+  async function saveToken(t: string | null) {
+    setToken(t);
+    if (t) await AsyncStorage.setItem(TOKEN_KEY, t);
+    else await AsyncStorage.removeItem(TOKEN_KEY);
+  }
+
+  function authHeaders(): Record<string, string> {
+    return token ? { authorization: `Bearer ${token}` } : {};
+  }
+
+  async function authenticate(kind: "login" | "register") {
+    setBusy(true);
+    setError("");
+    setAuthInfo("");
+    try {
+      const id = cleanIdentifier();
+      if (!id || !password) throw new Error("Skriv inn email/brukernavn og passord");
+
+      const claimCode = kind === "register" && claimStep === "claimCode" ? claimInput.trim() : "";
+      const res = await fetch(`${API_BASE_URL}/auth/${kind}`, {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({ identifier: id, password, ...(claimCode ? { claimCode } : {}) }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (res.status === 202) {
+        setClaimStep("magicLink");
+        setClaimInput("");
+        setAuthInfo("Kontoen finnes fra før. Åpne lenken vi har sendt til mailen din, eller lim inn koden fra lenken.");
+        return;
+      }
+      if (res.status === 409 && data.claimCodeRequired) {
+        setClaimStep("claimCode");
+        setAuthInfo("Kontoen finnes fra før uten email. Be en admin om en claim-kode og skriv den inn under.");
+        return;
+      }
+      if (!res.ok) throw new Error(data.error ?? `${res.status} ${res.statusText}`);
+
+      setPassword("");
+      setClaimStep(null);
+      setClaimInput("");
+      await saveToken((data as AuthResponse).token);
+    } catch (e) {
+      setError((e as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  /** Logger inn med tokenet fra magic link-mailen; ved overtakelse settes passordet som ble skrevet inn. */
+  async function verifyMagicLink(magicToken: string) {
+    setBusy(true);
+    setError("");
+    try {
+      const data = await fetchJson<AuthResponse>(`${API_BASE_URL}/auth/magic-link/verify`, {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({ token: magicToken }),
+      });
+      if (password) {
+        await fetchJson(`${API_BASE_URL}/auth/password`, {
+          method: "POST",
+          headers: { "content-type": "application/json", authorization: `Bearer ${data.token}` },
+          body: JSON.stringify({ password }),
+        });
+      }
+
+      setPassword("");
+      setClaimStep(null);
+      setClaimInput("");
+      setAuthInfo("");
+      await saveToken(data.token);
+    } catch (e) {
+      setError((e as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function logout() {
+    if (token) {
+      await fetch(`${API_BASE_URL}/auth/logout`, { method: "POST", headers: authHeaders() }).catch(() => undefined);
+    }
+    await saveToken(null);
+  }
+
   async function loadWorkouts() {
     const url = `${API_BASE_URL}/workouts?season=${DEFAULT_CTX.season}&competition=${DEFAULT_CTX.competition}&division=${DEFAULT_CTX.division}`;
     const data = await fetchJson<{ workouts: Workout[] }>(url);
@@ -286,13 +371,12 @@ export default function App() {
   }
 
   async function loadMe() {
-    const id = cleanIdentifier();
-    if (!id) {
+    if (!token) {
       setMe(null);
       return;
     }
     try {
-      const data = await fetchJson<MeResponse>(`${API_BASE_URL}/me?email=${encodeURIComponent(id)}`);
+      const data = await fetchJson<MeResponse>(`${API_BASE_URL}/me`, { headers: authHeaders() });
       setMe(data);
     } catch {
       setMe(null);
@@ -300,13 +384,12 @@ export default function App() {
   }
 
   async function loadCompare(workoutId: string) {
-    const id = cleanIdentifier();
-    if (!id) {
+    if (!token) {
       setCompare(null);
       return;
     }
     try {
-      const c = await fetchJson<any>(`${API_BASE_URL}/compare/workout/${workoutId}?email=${encodeURIComponent(id)}`);
+      const c = await fetchJson<any>(`${API_BASE_URL}/compare/workout/${workoutId}`, { headers: authHeaders() });
       setCompare({
         beatenCount: c.beatenCount,
         rankAmongBenchmarkPlusUser: c.rankAmongBenchmarkPlusUser,
@@ -318,14 +401,14 @@ export default function App() {
   }
 
   async function loadSummary() {
-    const id = cleanIdentifier();
-    if (!id) {
+    if (!token) {
       setSummary(null);
       return;
     }
     try {
       const s = await fetchJson<any>(
-        `${API_BASE_URL}/summary?email=${encodeURIComponent(id)}&season=${DEFAULT_CTX.season}&competition=${DEFAULT_CTX.competition}&division=${DEFAULT_CTX.division}`
+        `${API_BASE_URL}/summary?season=${DEFAULT_CTX.season}&competition=${DEFAULT_CTX.competition}&division=${DEFAULT_CTX.division}`,
+        { headers: authHeaders() }
       );
       setSummary({
         completedWorkouts: s.completedWorkouts,
@@ -366,10 +449,27 @@ export default function App() {
 
   useEffect(() => {
     void saveIdentifier(identifier);
+  }, [identifier]);
+
+  // Lenken kan åpnes mens appen kjører; ref-en gir verify med gjeldende passord
+  const verifyRef = useRef(verifyMagicLink);
+  verifyRef.current = verifyMagicLink;
+  useEffect(() => {
+    const open = (url: string | null) => {
+      const t = magicLinkToken(url);
+      if (t) void verifyRef.current(t);
+    };
+    void Linking.getInitialURL().then(open);
+    const sub = Linking.addEventListener("url", ({ url }) => open(url));
+    return () => sub.remove();
+  }, []);
+
+  useEffect(() => {
     void loadMe();
     void loadSummary();
+    if (selectedWorkoutId) void loadCompare(selectedWorkoutId);
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [identifier]);
+  }, [token]);
 
   useEffect(() => {
     if (!selectedWorkoutId) return;
@@ -384,32 +484,17 @@ export default function App() {
     setBusy(true);
     setError("");
     try {
-      const id = cleanIdentifier();
-      if (!id) throw new Error("Skriv inn email/brukernavn (æ/ø/å støttes)");
-
-      const payload: any = { email: id, workoutId: selected.id };
-
-      if (selected.scoreType === "TIME") {
-        const seconds = parseTimeToSeconds(inputValue);
-        if (seconds == null) throw new Error("Ugyldig tid. Bruk sekunder (750) eller mm:ss (12:30).");
-        payload.timeSeconds = seconds;
-      } else if (selected.scoreType === "REPS") {
-        const v = Number(inputValue);
-        if (!Number.isFinite(v) || v < 0) throw new Error("Ugyldig reps");
-        payload.reps = Math.floor(v);
-      } else if (selected.scoreType === "LOAD") {
-        const v = Number(inputValue);
-        if (!Number.isFinite(v) || v <= 0) throw new Error("Ugyldig kg");
-        payload.loadKg = v;
-      } else {
-        const v = Number(inputValue);
-        if (!Number.isFinite(v) || v < 0) throw new Error("Ugyldig reps");
-        payload.reps = Math.floor(v);
-      }
+      if (!token) throw new Error("Logg inn for å registrere resultater");
+
+      const scoreText = inputValue.trim();
+      if (!scoreText) throw new Error("Skriv inn en score");
+
+      // API-et tolker scoren (mm:ss, reps, kg/lb, CAP+N, tb ...) mot workoutens scoreType
+      const payload = { workoutId: selected.id, scoreText };
 
       await fetchJson(`${API_BASE_URL}/results`, {
         method: "POST",
-        headers: { "content-type": "application/json" },
+        headers: { "content-type": "application/json", ...authHeaders() },
         body: JSON.stringify(payload),
       });
 
@@ -459,14 +544,63 @@ export default function App() {
         <Card
           title="Profil"
           subtitle="Identifier støtter æ/ø/å. Kan være email eller brukernavn."
-          right={<Text className="text-zinc-500 text-xs">local save</Text>}
+          right={<Text className="text-zinc-500 text-xs">{token ? "innlogget" : "ikke innlogget"}</Text>}
         >
-          <FancyInput
-            value={identifier}
-            onChangeText={setIdentifier}
-            placeholder="f.eks. bjørnar@example.com"
-            helper="Tips: bruk samme identifier på alle enheter for samme bruker."
-          />
+          {token ? (
+            <View className="flex-row items-center justify-between">
+              <Text className="text-white font-semibold">{me?.user.name ?? cleanIdentifier()}</Text>
+              <FancyButton label="Logg ut" variant="ghost" onPress={() => void logout()} />
+            </View>
+          ) : (
+            <>
+              <FancyInput
+                value={identifier}
+                onChangeText={setIdentifier}
+                placeholder="f.eks. bjørnar@example.com"
+                helper="Har du brukt appen før uten passord? Registrer deg med samme identifier for å ta over kontoen."
+              />
+              <View className="mt-3">
+                <FancyInput value={password} onChangeText={setPassword} placeholder="Passord" secureTextEntry />
+              </View>
+              <View className="mt-3 flex-row gap-2">
+                <View className="flex-1">
+                  <FancyButton label="Logg inn" disabled={busy} onPress={() => void authenticate("login")} />
+                </View>
+                <View className="flex-1">
+                  <FancyButton
+                    label="Registrer"
+                    variant="ghost"
+                    disabled={busy}
+                    onPress={() => void authenticate("register")}
+                  />
+                </View>
+              </View>
+              {!!authInfo && <Text className="text-zinc-300 text-sm mt-3">{authInfo}</Text>}
+              {claimStep === "magicLink" && (
+                <View className="mt-3 flex-row gap-2">
+                  <View className="flex-1">
+                    <FancyInput value={claimInput} onChangeText={setClaimInput} placeholder="Kode fra lenken" />
+                  </View>
+                  <FancyButton
+                    label="Bekreft"
+                    disabled={busy || !claimInput.trim()}
+                    onPress={() => void verifyMagicLink(magicLinkToken(claimInput) ?? claimInput.trim())}
+                  />
+                </View>
+              )}
+              {claimStep === "claimCode" && (
+                <View className="mt-3">
+                  <FancyInput
+                    value={claimInput}
+                    onChangeText={setClaimInput}
+                    placeholder="Claim-kode fra admin"
+                    helper="Trykk Registrer igjen når koden er skrevet inn."
+                  />
+                </View>
+              )}
+              {!!error && <Text className="text-red-400 text-sm mt-3">{error}</Text>}
+            </>
+          )}
 
           <View className="mt-3 flex-row gap-2">
             <View className="flex-1">
@@ -515,7 +649,7 @@ export default function App() {
                       <Text className="text-zinc-300 text-[10px] font-semibold">{w.scoreType}</Text>
                     </View>
                   </View>
-                  <Text className="text-zinc-400 text-sm mt-2">{w.description}</Text>
+                  <Text className="text-zinc-400 text-sm mt-2">{w.displayDescription}</Text>
                 </Pressable>
               );
             })}
@@ -525,12 +659,12 @@ export default function App() {
                 <Text className="text-zinc-300 text-sm mb-2">
                   Logg{" "}
                   {selected.scoreType === "TIME"
-                    ? "tid (sek eller mm:ss)"
+                    ? "tid (sek eller mm:ss, evt. / tb mm:ss)"
                     : selected.scoreType === "REPS"
                       ? "reps"
                       : selected.scoreType === "LOAD"
-                        ? "kg"
-                        : "reps"}
+                        ? `vekt (${me?.user.loadUnit === "LB" ? "lb, eller f.eks. 100 kg" : "kg, eller f.eks. 225 lb"})`
+                        : "reps (evt. reps / mm:ss)"}
                 </Text>
 
                 <FancyInput value={inputValue} onChangeText={setInputValue} placeholder="12:30" />
@@ -600,7 +734,7 @@ export default function App() {
                         #{row.rank} — {row.user.name ? `${row.user.name} (${row.user.email})` : row.user.email}
                       </Text>
                       <Text className="text-zinc-300 text-sm mt-1">
-                        Score: {prettyScore(selected.scoreType, row.score)}
+                        Score: {row.display}
                       </Text>
                     </View>
                   ))
@@ -612,7 +746,7 @@ export default function App() {
                   <View key={`${row.rank}-${row.name}`} className="py-3 border-t border-zinc-900">
                     <Text className="text-white font-semibold">#{row.rank} — {row.name}</Text>
                     <Text className="text-zinc-300 text-sm mt-1">
-                      Score: {prettyScore(selected.scoreType, row.score)}
+                      Score: {row.display}
                     </Text>
                   </View>
                 ))
@@ -645,7 +779,10 @@ export default function App() {
                 {me.results.length ? (
                   me.results.slice(0, 20).map((r) => (
                     <View key={r.id} className="mt-3 bg-zinc-950 border border-zinc-900 rounded-3xl p-4">
-                      <Text className="text-white font-semibold">{r.workout.name}</Text>
+                      <Text className="text-white font-semibold">
+                        {r.workout.name}
+                        {r.attempt > 1 ? ` · forsøk ${r.attempt}` : ""}
+                      </Text>
                       <Text className="text-zinc-300 text-sm mt-2">
                         Score:{" "}
                         {r.workout.scoreType === "TIME"
@@ -655,9 +792,13 @@ export default function App() {
                           : r.workout.scoreType === "REPS"
                             ? `${r.reps ?? "-"} reps`
                             : r.workout.scoreType === "LOAD"
-                              ? `${r.loadKg ?? "-"} kg`
+                              ? r.display
                               : `${r.reps ?? "-"} reps`}
                       </Text>
+                      {r.progressDisplay ? (
+                        <Text className="text-zinc-400 text-sm mt-1">{r.progressDisplay}</Text>
+                      ) : null}
+                      {r.note ? <Text className="text-zinc-400 text-sm mt-1">{r.note}</Text> : null}
                       <Text className="text-zinc-600 text-xs mt-2">{new Date(r.createdAt).toLocaleString()}</Text>
                     </View>
                   ))
@@ -666,7 +807,7 @@ export default function App() {
                 )}
               </>
             ) : (
-              <Text className="text-zinc-500">Ingen bruker funnet ennå. Logg en workout først.</Text>
+              <Text className="text-zinc-500">Logg inn for å se profilen din.</Text>
             )}
           </Card>
         )}